@@ -6,7 +6,7 @@
  * different response formats and payment scenarios.
  */
 
-import { initializeServer, type Config } from "../main.ts";
+import { createCheckoutSession, initializeServer, type Config, type RoutePricing } from "../main.ts";
 import OpenAI from "openai";
 import { create, verify } from "https://deno.land/x/djwt@v3.0.2/mod.ts";
 import { encodeBase64 } from "https://deno.land/std@0.224.0/encoding/base64.ts";
@@ -53,7 +53,24 @@ const IMAGE_PRICING = {
   "1024x1792": 35, // 35 credits for portrait
 } as const;
 
-const FREE_IMAGE_LIMIT = 2; // Free images for anonymous users
+type ImageSize = keyof typeof IMAGE_PRICING;
+
+const IMAGE_SIZES = Object.keys(IMAGE_PRICING) as ImageSize[];
+const DEFAULT_IMAGE_SIZE: ImageSize = "1024x1024";
+const IMAGE_GENERATION_PATH = "/api/generate-image";
+
+const FREE_IMAGE_LIMIT = 2; // Free images for anonymous users (per day, per size route)
+
+// Each size has its own route, so a generation is charged exactly its size's price; failed ones are refunded
+const imageRoutePricing = (size: ImageSize): RoutePricing => ({
+  price: IMAGE_PRICING[size],
+  freeQuota: FREE_IMAGE_LIMIT,
+  freeQuotaWindowSeconds: 24 * 60 * 60,
+  countsAgainstFreeTier: false,
+});
+
+// Credit pack sizes offered by the demo
+const CREDIT_PACK_SIZES = [100, 250, 500, 1000];
 
 // Initialize OpenAI client
 const openai = new OpenAI({
@@ -113,6 +130,27 @@ const demoConfig: Config = {
   freeRatelimit: 10, // Free requests per hour for anonymous users
   freeRateLimitResetSeconds: 3600, // 1 hour reset period
   cacheSeconds: 300, // 5 minutes cache
+
+  // Route-level pricing (first match wins; unlisted routes cost priceCredit)
+  pricing: {
+    [`GET ${IMAGE_GENERATION_PATH}`]: { free: true },
+    ...Object.fromEntries(IMAGE_SIZES.map((size) => [`POST ${IMAGE_GENERATION_PATH}/${size}`, imageRoutePricing(size)])),
+    // Without a size in the path the default size is generated
+    [`POST ${IMAGE_GENERATION_PATH}`]: imageRoutePricing(DEFAULT_IMAGE_SIZE),
+  },
+
+  // Credit packs sold through Polar checkouts (product ids from POLAR_PRODUCT_<credits>)
+  checkout: {
+    creditPacks: CREDIT_PACK_SIZES
+      .map((credits) => ({ credits, productId: Deno.env.get(`POLAR_PRODUCT_${credits}`) ?? '' }))
+      .filter((pack) => pack.productId),
+    successUrl: Deno.env.get("POLAR_SUCCESS_URL") ?? "http://localhost:8000/",
+  },
+
+  // Polar webhooks carry the demo user id as the customer's external_id
+  polarWebhook: {
+    resolveUserId: (externalCustomerId: string) => Promise.resolve(externalCustomerId),
+  },
   
   // User lookup function for JWT tokens
   getUserByToken: async (token: string, kv: Deno.Kv) => {
@@ -133,7 +171,9 @@ const demoConfig: Config = {
       }
       
       const user = userResult.value as User;
+      // The id keys charges to the demo's own user record instead of the session token
       const polarUser = {
+        id: user.id,
         access_token: token,
         name: user.name,
         email: user.email,
@@ -159,6 +199,13 @@ const demoConfig: Config = {
     const isHtml = acceptHeader.includes('text/html');
     const isMarkdown = acceptHeader.includes('text/markdown');
 
+    // Sized image generation: the size in the path picks the route's price
+    if (pathname.startsWith(`${IMAGE_GENERATION_PATH}/`)) {
+      return request.method === 'POST'
+        ? handleImageGeneration(request, context)
+        : new Response('Method not allowed', { status: 405 });
+    }
+
     // Demo endpoints
     switch (pathname) {
       // Authentication endpoints
@@ -191,13 +238,6 @@ const demoConfig: Config = {
           return new Response('Method not allowed', { status: 405 });
         }
 
-      case '/api/payment/webhook':
-        if (request.method === 'POST') {
-          return handlePaymentWebhook(request, context);
-        } else {
-          return new Response('Method not allowed', { status: 405 });
-        }
-
       case '/api/payment/balance':
         if (request.method === 'GET') {
           return handleGetBalance(request, context);
@@ -580,67 +620,28 @@ async function handleCreateCheckout(request: Request, context: any): Promise<Res
   };
 
   try {
-    const body = await request.json();
-    const { credits = 100 } = body;
+    const authHeader = request.headers.get('Authorization');
+    const userSession = authHeader?.startsWith('Bearer ') ? await verifyJWT(authHeader.replace('Bearer ', '')) : null;
 
-    // Validate credits amount
-    const validCredits = [100, 250, 500, 1000];
-    if (!validCredits.includes(credits)) {
+    if (!userSession) {
       return new Response(JSON.stringify({
-        error: "Invalid Credits Amount",
-        message: "Credits must be one of: 100, 250, 500, 1000",
-        status: 400
+        error: "Authentication Required",
+        message: "A valid Bearer token is required to buy credits",
+        status: 401
       }), {
-        status: 400,
+        status: 401,
         headers: { 'Content-Type': 'application/json', ...corsHeaders }
       });
     }
 
-    // For demo purposes, we'll create a mock checkout URL
-    // In a real implementation, this would integrate with Polar's API
-    const checkoutUrl = `${context.env.POLAR_PAYMENT_LINK || 'https://polar.sh/checkout/demo'}?credits=${credits}`;
-    
-    return new Response(JSON.stringify({
-      success: true,
-      checkout_url: checkoutUrl,
-      credits,
-      amount: credits / 10, // $0.10 per credit for demo
-      currency: "USD"
-    }), {
-      status: 200,
-      headers: { 'Content-Type': 'application/json', ...corsHeaders }
-    });
-
-  } catch (error) {
-    console.error('Create checkout error:', error);
-    return new Response(JSON.stringify({
-      error: "Internal Server Error",
-      message: "Failed to create checkout session",
-      status: 500
-    }), {
-      status: 500,
-      headers: { 'Content-Type': 'application/json', ...corsHeaders }
-    });
-  }
-}
-
-async function handlePaymentWebhook(request: Request, context: any): Promise<Response> {
-  // This would handle Polar webhooks to credit user accounts
-  // For demo purposes, we'll simulate successful payments
-  const corsHeaders = {
-    'Access-Control-Allow-Origin': '*',
-    'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-  };
-
-  try {
     const body = await request.json();
-    const { user_id, credits, transaction_id } = body;
+    const { credits = 100 } = body;
 
-    if (!user_id || !credits || !transaction_id) {
+    // Validate credits amount
+    if (!CREDIT_PACK_SIZES.includes(credits)) {
       return new Response(JSON.stringify({
-        error: "Invalid Webhook Data",
-        message: "user_id, credits, and transaction_id are required",
+        error: "Invalid Credits Amount",
+        message: `Credits must be one of: ${CREDIT_PACK_SIZES.join(', ')}`,
         status: 400
       }), {
         status: 400,
@@ -648,45 +649,46 @@ async function handlePaymentWebhook(request: Request, context: any): Promise<Res
       });
     }
 
-    // Get user and update balance
-    const userResult = await context.kv.get([`user:${user_id}`]);
-    if (!userResult.value) {
+    // Polar checkout bound to the demo user id; the webhook credits it once paid
+    const session = await createCheckoutSession(demoConfig, context.env)({
+      externalCustomerId: userSession.id,
+      credits,
+      customerEmail: userSession.email,
+    });
+
+    if (session.kind === 'err' && session.error.kind === 'provider_error') {
+      console.error('Create checkout error:', session.error.error);
       return new Response(JSON.stringify({
-        error: "User Not Found",
-        message: "User does not exist",
-        status: 404
+        error: "Bad Gateway",
+        message: "Polar could not create a checkout session",
+        status: 502
       }), {
-        status: 404,
+        status: 502,
         headers: { 'Content-Type': 'application/json', ...corsHeaders }
       });
     }
 
-    const user = userResult.value as User;
-    const updatedUser = { ...user, balance: user.balance + credits };
-    await context.kv.set([`user:${user_id}`], updatedUser);
-
-    // Log transaction
-    await context.kv.set([`transaction:${transaction_id}`], {
-      user_id,
-      credits,
-      transaction_id,
-      timestamp: new Date().toISOString(),
-      type: 'credit_purchase'
-    });
-
+    // Without POLAR_ACCESS_TOKEN and POLAR_PRODUCT_<credits> the demo falls back to a mock link
+    const checkoutUrl = session.kind === 'ok'
+      ? session.value.url
+      : `${context.env.POLAR_PAYMENT_LINK || 'https://polar.sh/checkout/demo'}?credits=${credits}`;
+    
     return new Response(JSON.stringify({
       success: true,
-      message: "Payment processed successfully"
+      checkout_url: checkoutUrl,
+      credits,
+      amount: credits / 10, // $0.10 per credit for demo
+      currency: "USD"
     }), {
       status: 200,
       headers: { 'Content-Type': 'application/json', ...corsHeaders }
     });
 
   } catch (error) {
-    console.error('Payment webhook error:', error);
+    console.error('Create checkout error:', error);
     return new Response(JSON.stringify({
       error: "Internal Server Error",
-      message: "Failed to process payment",
+      message: "Failed to create checkout session",
       status: 500
     }), {
       status: 500,
@@ -775,9 +777,13 @@ async function handleImageGeneration(request: Request, context: any): Promise<Re
   };
 
   try {
+    // The size comes from the path (the default size without one); a size in the body must agree with it
+    const pathSize = new URL(request.url).pathname.slice(IMAGE_GENERATION_PATH.length + 1);
+    const size = pathSize || DEFAULT_IMAGE_SIZE;
+
     // Parse request body
     const body = await request.json();
-    const { prompt, size = "1024x1024", quality = "standard" } = body;
+    const { prompt, quality = "standard" } = body;
 
     // Validate prompt
     if (!prompt || typeof prompt !== 'string' || prompt.trim().length === 0) {
@@ -792,11 +798,10 @@ async function handleImageGeneration(request: Request, context: any): Promise<Re
     }
 
     // Validate size
-    const validSizes = Object.keys(IMAGE_PRICING) as Array<keyof typeof IMAGE_PRICING>;
-    if (!validSizes.includes(size as keyof typeof IMAGE_PRICING)) {
+    if (!IMAGE_SIZES.includes(size as ImageSize) || (body.size !== undefined && body.size !== size)) {
       return new Response(JSON.stringify({
         error: "Invalid size",
-        message: `Size must be one of: ${validSizes.join(', ')}`,
+        message: `Choose the size in the path: POST ${IMAGE_GENERATION_PATH}/{size} with size one of: ${IMAGE_SIZES.join(', ')}`,
         status: 400
       }), {
         status: 400,
@@ -804,48 +809,6 @@ async function handleImageGeneration(request: Request, context: any): Promise<Re
       });
     }
 
-    // Get cost for this image size
-    const cost = IMAGE_PRICING[size as keyof typeof IMAGE_PRICING];
-
-    // Check if user is authenticated
-    if (!context.user) {
-      // Anonymous user - check free limit
-      const freeUsageKey = `free_images:${context.clientId || 'anonymous'}`;
-      const freeUsage = await context.kv.get([freeUsageKey]);
-      const currentUsage = freeUsage.value || 0;
-
-      if (currentUsage >= FREE_IMAGE_LIMIT) {
-        return new Response(JSON.stringify({
-          error: "Payment Required",
-          message: `Free limit of ${FREE_IMAGE_LIMIT} images exceeded. Please authenticate to continue.`,
-          payment_link: context.env.POLAR_PAYMENT_LINK,
-          cost_per_image: cost,
-          status: 402
-        }), {
-          status: 402,
-          headers: { 'Content-Type': 'application/json', ...corsHeaders }
-        });
-      }
-
-      // Increment free usage
-      await context.kv.set([freeUsageKey], currentUsage + 1, { expireIn: 24 * 60 * 60 * 1000 }); // 24 hours
-    } else {
-      // Authenticated user - check balance
-      if (context.user.balance < cost) {
-        return new Response(JSON.stringify({
-          error: "Insufficient Credits",
-          message: `Image generation requires ${cost} credits. Your balance: ${context.user.balance}`,
-          payment_link: context.env.POLAR_PAYMENT_LINK,
-          cost_required: cost,
-          current_balance: context.user.balance,
-          status: 402
-        }), {
-          status: 402,
-          headers: { 'Content-Type': 'application/json', ...corsHeaders }
-        });
-      }
-    }
-
     // Check if OpenAI API key is configured
     if (!Deno.env.get("OPENAI_API_KEY")) {
       return new Response(JSON.stringify({
@@ -869,17 +832,6 @@ async function handleImageGeneration(request: Request, context: any): Promise<Re
         response_format: "url"
       });
 
-      // Charge user if authenticated
-      if (context.user) {
-        // Get current user data and update balance
-        const userResult = await context.kv.get([`user:${context.user.id}`]);
-        if (userResult.value) {
-          const user = userResult.value as User;
-          const updatedUser = { ...user, balance: user.balance - cost };
-          await context.kv.set([`user:${context.user.id}`], updatedUser);
-        }
-      }
-
       // Validate response data
       if (!response.data || response.data.length === 0) {
         throw new Error("No image data received from OpenAI");
@@ -890,9 +842,8 @@ async function handleImageGeneration(request: Request, context: any): Promise<Re
         throw new Error("No image URL received from OpenAI");
       }
 
-      // Get current free usage for response
-      const freeUsageKey = `free_images:${context.clientId || 'anonymous'}`;
-      const currentFreeUsage = context.user ? 0 : (await context.kv.get([freeUsageKey])).value || 0;
+      // The framework already charged this size's route price before the handler ran
+      const cost = IMAGE_PRICING[size as ImageSize];
 
       return new Response(JSON.stringify({
         success: true,
@@ -902,9 +853,9 @@ async function handleImageGeneration(request: Request, context: any): Promise<Re
           size: size,
           quality: quality
         },
+        // Free quota is reported in RateLimit-* headers
         cost: context.user ? cost : 0,
-        remaining_balance: context.user ? Math.max(0, context.user.balance - cost) : null,
-        free_generations_remaining: context.user ? null : Math.max(0, FREE_IMAGE_LIMIT - currentFreeUsage)
+        remaining_balance: context.user ? context.user.balance : null
       }), {
         status: 200,
         headers: { 'Content-Type': 'application/json', ...corsHeaders }
@@ -941,26 +892,26 @@ async function handleImageGeneration(request: Request, context: any): Promise<Re
 function createImageGenerationInfo(isHtml: boolean, isMarkdown: boolean): Response {
   const info = {
     json: {
-      endpoint: "/api/generate-image",
+      endpoint: `${IMAGE_GENERATION_PATH}/{size}`,
       method: "POST",
       description: "Generate images using OpenAI DALL-E",
       pricing: IMAGE_PRICING,
       free_limit: FREE_IMAGE_LIMIT,
       parameters: {
         prompt: "string (required) - Description of the image to generate",
-        size: "string (optional) - Image size: 256x256, 512x512, 1024x1024, 1792x1024, 1024x1792",
+        size: `path segment (optional) - Image size: ${IMAGE_SIZES.join(', ')}; ${DEFAULT_IMAGE_SIZE} without one`,
         quality: "string (optional) - Image quality: standard, hd"
       },
       authentication: "Bearer token required for unlimited generations",
       example: {
+        path: `${IMAGE_GENERATION_PATH}/1024x1024`,
         prompt: "A serene mountain landscape at sunset",
-        size: "1024x1024",
         quality: "standard"
       }
     },
     markdown: `# Image Generation API
 
-**Endpoint**: \`POST /api/generate-image\`
+**Endpoint**: \`POST /api/generate-image/{size}\`
 
 Generate high-quality images using OpenAI's DALL-E model.
 
@@ -972,23 +923,23 @@ Generate high-quality images using OpenAI's DALL-E model.
 - **1024x1792**: ${IMAGE_PRICING["1024x1792"]} credits (portrait)
 
 ## Free Tier
-Anonymous users get **${FREE_IMAGE_LIMIT} free generations** before payment required.
+Anonymous users get **${FREE_IMAGE_LIMIT} free generations** per size each day before payment required.
 
 ## Parameters
 - \`prompt\` (required): Description of the image
-- \`size\` (optional): Image dimensions
+- \`{size}\` (optional, in the path): Image dimensions
 - \`quality\` (optional): standard or hd
 
 ## Example Request
+\`POST /api/generate-image/1024x1024\`
 \`\`\`json
 {
   "prompt": "A serene mountain landscape at sunset",
-  "size": "1024x1024",
   "quality": "standard"
 }
 \`\`\``,
     html: `<h1>🎨 Image Generation API</h1>
-<p><strong>Endpoint</strong>: <code>POST /api/generate-image</code></p>
+<p><strong>Endpoint</strong>: <code>POST /api/generate-image/{size}</code></p>
 <p>Generate high-quality images using OpenAI's DALL-E model.</p>
 <h2>💰 Pricing</h2>
 <ul>
@@ -999,11 +950,11 @@ Anonymous users get **${FREE_IMAGE_LIMIT} free generations** before payment requ
   <li><strong>1024x1792</strong>: ${IMAGE_PRICING["1024x1792"]} credits (portrait)</li>
 </ul>
 <h2>🆓 Free Tier</h2>
-<p>Anonymous users get <strong>${FREE_IMAGE_LIMIT} free generations</strong> before payment required.</p>
+<p>Anonymous users get <strong>${FREE_IMAGE_LIMIT} free generations</strong> per size each day before payment required.</p>
 <h2>📝 Parameters</h2>
 <ul>
   <li><code>prompt</code> (required): Description of the image</li>
-  <li><code>size</code> (optional): Image dimensions</li>
+  <li><code>{size}</code> (optional, in the path): Image dimensions</li>
   <li><code>quality</code> (optional): standard or hd</li>
 </ul>`
   };
@@ -1254,7 +1205,7 @@ if (import.meta.main) {
   console.log("  GET  /api/auth/me           - Get current user info");
   console.log("\n💳 Payment endpoints:");
   console.log("  POST /api/payment/create-checkout - Create Polar checkout session");
-  console.log("  POST /api/payment/webhook         - Process payment webhooks");
+  console.log("  POST /__billing/webhooks/polar    - Polar webhooks (signature verified)");
   console.log("  GET  /api/payment/balance         - Get user credit balance");
   console.log("\n📋 API endpoints:");
   console.log("  GET  /                      - Interactive demo home page");
@@ -1274,12 +1225,15 @@ if (import.meta.main) {
   console.log("  JWT_SECRET         - JWT signing secret (optional, has default)");
   console.log("  OPENAI_API_KEY     - Required for image generation");
   console.log("  POLAR_PAYMENT_LINK - Polar checkout URL (optional)");
+  console.log("  POLAR_WEBHOOK_SECRET - Polar webhook signing secret");
+  console.log("  POLAR_ACCESS_TOKEN - Polar API token for checkout sessions");
+  console.log("  POLAR_PRODUCT_<N>  - Polar product id of the N-credit pack (100, 250, 500, 1000)");
 
   // Create custom server that bypasses framework for auth endpoints
   const kv = await Deno.openKv();
   const env = Deno.env.toObject();
   
-  const requestHandler = async (request: Request): Promise<Response> => {
+  const requestHandler = async (request: Request, info: Deno.ServeHandlerInfo): Promise<Response> => {
     const url = new URL(request.url);
     const pathname = url.pathname;
     
@@ -1326,7 +1280,7 @@ if (import.meta.main) {
     
     // Use framework for other endpoints
     const { handleRequest } = await import('../main.ts');
-    return await handleRequest(demoConfig, kv, env)(request);
+    return await handleRequest(demoConfig, kv, env)(request, info);
   };
   
   console.log("🚀 User Agent 402 server starting on port 8000");
@@ -1,4 +1,5 @@
-import { match } from "ts-pattern";
+import { match, P } from "ts-pattern";
+import { Polar } from "@polar-sh/sdk";
 
 // Result type for explicit error handling (no exceptions)
 type Result<T, E = Error> =
@@ -6,26 +7,374 @@ type Result<T, E = Error> =
   | { readonly kind: 'err'; readonly error: E };
 
 // Response format discriminated union
-type ResponseFormat = 'json' | 'html' | 'markdown';
+type ResponseFormat = 'json' | 'html' | 'markdown' | 'text' | 'yaml' | 'csv' | 'ndjson';
+
+// One media range of an Accept header with its quality value
+type MediaRange = { readonly type: string; readonly subtype: string; readonly q: number };
+
+// Parsed JSON handler result, rendered into the HTML and Markdown views
+type JsonValue = null | boolean | number | string | readonly JsonValue[] | { readonly [key: string]: JsonValue };
 
 // User state as ADT
 type UserState =
   | { readonly kind: 'anonymous'; readonly clientId: string }
-  | { readonly kind: 'authenticated'; readonly user: PolarUser }
-  | { readonly kind: 'insufficient_balance'; readonly user: PolarUser };
+  | { readonly kind: 'invalid_token'; readonly clientId: string }
+  | { readonly kind: 'lookup_failed'; readonly clientId: string; readonly error: Error }
+  | { readonly kind: 'authenticated'; readonly user: PolarUser; readonly apiKey?: ApiKey }
+  | { readonly kind: 'insufficient_balance'; readonly user: PolarUser; readonly apiKey?: ApiKey };
 
-// Rate limit result ADT
+// Rate limit result ADT (paid requests bypass the free tier, free routes bypass metering)
 type RateLimitResult =
-  | { readonly kind: 'allowed'; readonly remaining: number }
-  | { readonly kind: 'exceeded'; readonly resetTime: number };
+  | { readonly kind: 'allowed'; readonly quota: FreeQuota; readonly remaining: number; readonly resetTime: number }
+  | { readonly kind: 'exceeded'; readonly quota: FreeQuota; readonly resetTime: number }
+  | { readonly kind: 'paid'; readonly balance: number }
+  | { readonly kind: 'free' }
+  | { readonly kind: 'payment_required' };
+
+// Who gets the free tier: free_quota_first spends free quotas before charging anyone,
+// paid_first (default) charges users with credit and gives everyone else the free tier,
+// free_for_anonymous_only keeps signed-in users off the free tier, paid_only has no free tier
+type BillingPolicy =
+  | { readonly kind: 'free_quota_first' }
+  | { readonly kind: 'paid_first' }
+  | { readonly kind: 'free_for_anonymous_only' }
+  | { readonly kind: 'paid_only' };
+
+// Why a request is refused before the handler runs
+type DenyReason = 'free_quota_exhausted' | 'payment_required' | 'insufficient_balance';
+
+// Billing decision for one request; `rateLimit` is the free-quota outcome behind it, if consulted
+type BillingDecision =
+  | { readonly kind: 'free'; readonly rateLimit?: RateLimitResult }
+  | { readonly kind: 'charge'; readonly amount: number }
+  | { readonly kind: 'deny'; readonly reason: DenyReason; readonly rateLimit?: RateLimitResult };
+
+// Charge error ADT
+type ChargeError =
+  | { readonly kind: 'user_not_found' }
+  | { readonly kind: 'insufficient_balance'; readonly balance: number; readonly required: number }
+  | { readonly kind: 'contention'; readonly attempts: number }
+  | { readonly kind: 'already_applied' }
+  | { readonly kind: 'key_spend_cap_exceeded'; readonly cap: number; readonly spent: number }
+  | {
+    readonly kind: 'spend_limit_exceeded';
+    readonly scope: SpendScope;
+    readonly period: SpendPeriod;
+    readonly limit: number;
+    readonly spent: number;
+  }
+  | { readonly kind: 'storage_error'; readonly error: Error };
+
+// Why a charge outcome is being settled after the handler ran
+type SettlementOutcome =
+  | { readonly kind: 'completed'; readonly events: readonly MeterEvent[] }
+  | { readonly kind: 'failed'; readonly reason: string };
 
 // Cache result ADT
 type CacheResult<T> =
   | { readonly kind: 'hit'; readonly value: T }
   | { readonly kind: 'miss' };
 
+// Cached handler response: status, the handler headers replayed on hits, raw body bytes and freshness;
+// `contentType` marks bodies replayed as-is instead of being rendered in the requested format, and
+// bodies too large for one KV value live in `bodyChunks` at [cache_chunk:<key>, <id>, <index>]
+type CacheEnvelope = {
+  readonly status: number;
+  readonly headers: Readonly<Record<string, string>>;
+  readonly body: Uint8Array<ArrayBuffer>;
+  readonly etag: string;
+  readonly storedAt: number;
+  readonly maxAge: number;
+  readonly staleWhileRevalidate: number;
+  readonly staleIfError: number;
+  readonly contentType?: string;
+  readonly bodyChunks?: { readonly id: string; readonly count: number };
+};
+
+// How usable a cache entry is: fresh, servable while it is refreshed, servable only when the handler fails, or gone
+type CacheFreshness = 'fresh' | 'stale_while_revalidate' | 'stale_if_error' | 'expired';
+
+// The variant key a request maps to and the entry stored there, if any
+type CacheLookup = {
+  readonly key: string;
+  readonly entry: CacheEnvelope | null;
+};
+
+// Cache-Control directives that decide whether and for how long a response is cached
+type CacheDirectives = {
+  readonly noStore: boolean;
+  readonly noCache: boolean;
+  readonly private: boolean;
+  readonly public: boolean;
+  readonly maxAge?: number;
+  readonly sMaxAge?: number;
+  readonly staleWhileRevalidate?: number;
+  readonly staleIfError?: number;
+};
+
 // === PURE DATA TYPES ===
 
+// Kind of balance movement recorded in the ledger
+type LedgerKind = 'debit' | 'credit' | 'refund' | 'grant';
+
+// Why a balance moved, as recorded in the ledger
+type LedgerDetails = {
+  readonly reason: string;
+  readonly path?: string;
+  readonly requestId?: string;
+  readonly apiKeyId?: string;
+};
+
+// Immutable ledger entry, stored at [ledger:<userId>, id]; amount is the signed balance delta
+type LedgerEntry = LedgerDetails & {
+  readonly id: string;
+  readonly userId: string;
+  readonly kind: LedgerKind;
+  readonly amount: number;
+  readonly balanceAfter: number;
+  readonly timestamp: string;
+};
+
+// Balance folded from all ledger entries up to and including `throughId`
+type LedgerSnapshot = {
+  readonly balance: number;
+  readonly throughId: string;
+  readonly timestamp: string;
+};
+
+// One page of ledger entries
+type LedgerPage = {
+  readonly entries: readonly LedgerEntry[];
+  readonly nextCursor?: string;
+};
+
+// A balance change applied atomically together with its ledger entry
+type BalanceChange = {
+  readonly kind: LedgerKind;
+  readonly details: LedgerDetails;
+  readonly apply: (user: PolarUser, runningTotal: number) => Result<PolarUser, ChargeError>;
+  readonly once?: { readonly key: Deno.KvKey; readonly record: unknown };
+  // Sum of the earlier changes recorded under this key (e.g. one order's refund clawbacks), passed to `apply`
+  readonly runningTotal?: Deno.KvKey;
+  readonly countsAsSpend?: boolean;
+};
+
+type SpendScope = 'user' | 'key';
+type SpendPeriod = 'daily' | 'monthly';
+
+// Spend ceilings for a user or key: credits per UTC day/month and paid requests per minute
+type SpendLimits = {
+  readonly daily?: number;
+  readonly monthly?: number;
+  readonly requestsPerMinute?: number;
+};
+
+// Credits spent by a user or key in one UTC day or month, stored at [spend:<scope>:<id>, <bucket>]
+type SpendCounter = {
+  readonly scope: SpendScope;
+  readonly period: SpendPeriod;
+  readonly key: Deno.KvKey;
+  readonly expireIn: number;
+};
+
+// Fired when a balance change drops a user below a configured threshold
+type BudgetAlert = {
+  readonly kind: 'low_balance';
+  readonly userId: string;
+  readonly threshold: number;
+  readonly previousBalance: number;
+  readonly balance: number;
+  readonly timestamp: string;
+};
+
+// Budget alert settings: thresholds plus a callback and/or webhook URL receiving BudgetAlert JSON
+type BudgetAlertConfig = {
+  readonly lowBalanceThresholds: readonly number[];
+  readonly onAlert?: (alert: BudgetAlert) => void | Promise<void>;
+  readonly webhookUrl?: string;
+};
+
+// Minimal view of a Polar webhook event (order.*, subscription.*)
+type PolarWebhookEvent = {
+  readonly type: string;
+  readonly data: {
+    readonly id?: string;
+    readonly amount?: number;
+    readonly refunded_amount?: number;
+    readonly metadata?: Readonly<Record<string, unknown>>;
+    readonly customer?: { readonly external_id?: string | null };
+    readonly product?: { readonly metadata?: Readonly<Record<string, unknown>> };
+  };
+};
+
+// Why a webhook delivery was rejected
+type WebhookError =
+  | { readonly kind: 'missing_secret' }
+  | { readonly kind: 'missing_headers' }
+  | { readonly kind: 'stale_timestamp' }
+  | { readonly kind: 'invalid_signature' }
+  | { readonly kind: 'invalid_payload' };
+
+// Balance effect of a verified Polar event
+type PolarEventAction =
+  | {
+    readonly kind: 'adjust';
+    readonly ledgerKind: LedgerKind;
+    readonly amount: number;
+    readonly externalCustomerId: string;
+    readonly reason: string;
+    // Set on refunds: `amount` is the order's total clawback so far, of which earlier refunds already took part
+    readonly orderId?: string;
+  }
+  | { readonly kind: 'ignore' };
+
+// Polar webhook settings
+type PolarWebhookConfig = {
+  readonly toleranceSeconds?: number;
+  readonly creditsForEvent?: (event: PolarWebhookEvent) => number;
+  readonly resolveUserId?: (externalCustomerId: string, kv: Deno.Kv) => Promise<string | null>;
+};
+
+// A purchasable credit pack backed by a Polar product
+type CreditPack = {
+  readonly credits: number;
+  readonly productId: string;
+};
+
+// The slice of the Polar SDK used for checkouts; `new Polar(...)` satisfies it, tests inject a stub
+type CheckoutClient = {
+  readonly checkouts: {
+    readonly create: (request: {
+      products: string[];
+      externalCustomerId?: string;
+      customerEmail?: string;
+      metadata?: { [key: string]: string | number | boolean };
+      successUrl?: string;
+    }) => Promise<{ readonly id: string; readonly url: string }>;
+  };
+};
+
+// Checkout settings: packs on sale, the pack offered in 402 responses and an optional client
+type CheckoutConfig = {
+  readonly creditPacks: ReadonlyArray<CreditPack>;
+  readonly defaultCredits?: number;
+  readonly successUrl?: string;
+  readonly sessionTtlSeconds?: number;
+  readonly client?: CheckoutClient;
+};
+
+type CheckoutSession = {
+  readonly id: string;
+  readonly url: string;
+  readonly credits: number;
+};
+
+// Checkout error ADT
+type CheckoutError =
+  | { readonly kind: 'not_configured' }
+  | { readonly kind: 'unknown_pack'; readonly credits: number; readonly available: readonly number[] }
+  | { readonly kind: 'provider_error'; readonly error: Error };
+
+// A customer's API key, stored at api_key:<id>; only the SHA-256 hash of the secret is kept.
+// Debits made with the key add to `spent`, refunds give it back, `spendCap` bounds it.
+type ApiKey = {
+  readonly id: string;
+  readonly userId: string;
+  readonly name?: string;
+  readonly hint: string;
+  readonly hash: string;
+  readonly scopes: readonly string[];
+  readonly spendCap?: number;
+  readonly spent: number;
+  readonly createdAt: string;
+  readonly lastUsedAt?: string;
+  readonly expiresAt?: string;
+  readonly revokedAt?: string;
+  readonly rotatedTo?: string;
+  readonly limits?: SpendLimits;
+};
+
+// Settings for a new API key
+type ApiKeyOptions = {
+  readonly name?: string;
+  readonly scopes?: readonly string[];
+  readonly spendCap?: number;
+  readonly expiresInSeconds?: number;
+  readonly limits?: SpendLimits;
+};
+
+// API key settings: the plaintext prefix identifying keys and whether raw legacy tokens still authenticate
+type ApiKeyConfig = {
+  readonly prefix?: string;
+  readonly allowLegacyTokens?: boolean;
+};
+
+// API key error ADT
+type ApiKeyError =
+  | { readonly kind: 'not_found' }
+  | { readonly kind: 'revoked' }
+  | { readonly kind: 'insufficient_scope'; readonly scope: string }
+  | { readonly kind: 'grace_too_long'; readonly maxSeconds: number }
+  | { readonly kind: 'storage_error'; readonly error: Error };
+
+// Machine-readable payment terms for a 402 (x402-style), advertised in the body and X-Payment-Required
+type PaymentRequirements = {
+  readonly version: 1;
+  readonly resource: string;
+  readonly price: number;
+  readonly unit: 'credits';
+  readonly currency?: string;
+  readonly creditPrice?: number;
+  readonly schemes: readonly string[];
+  readonly checkout?: string;
+  readonly nonce: string;
+  readonly expiresAt: string;
+};
+
+// Decoded X-Payment header: base64 JSON { scheme, nonce, payload }
+type PaymentProof = {
+  readonly scheme: string;
+  readonly nonce: string;
+  readonly payload: unknown;
+};
+
+// What a verifier confirmed was paid
+type PaymentReceipt = {
+  readonly payer: string;
+  readonly amount: number;
+  readonly reference?: string;
+};
+
+// Checks a proof for one scheme against the requirements it answers (on-chain, voucher, PSP, ...)
+type PaymentVerifier = (proof: PaymentProof, requirements: PaymentRequirements) => Promise<Result<PaymentReceipt, string>>;
+
+// Payment proof error ADT
+type PaymentError =
+  | { readonly kind: 'malformed_proof' }
+  | { readonly kind: 'unsupported_scheme'; readonly scheme: string }
+  | { readonly kind: 'unknown_nonce' }
+  | { readonly kind: 'resource_mismatch' }
+  | { readonly kind: 'rejected'; readonly reason: string }
+  | { readonly kind: 'insufficient_amount'; readonly amount: number; readonly required: number }
+  | { readonly kind: 'storage_error'; readonly error: Error };
+
+// Agent payment settings: advertised fiat terms, nonce lifetime and verifiers keyed by scheme
+type PaymentConfig = {
+  readonly currency?: string;
+  readonly creditPrice?: number;
+  readonly requirementsTtlSeconds?: number;
+  readonly verifiers?: Readonly<Record<string, PaymentVerifier>>;
+};
+
+// Idempotency record of a compensating credit, stored at refund:<requestId>
+type RefundRecord = {
+  readonly userId: string;
+  readonly requestId: string;
+  readonly amount: number;
+  readonly reason: string;
+  readonly timestamp: string;
+};
+
 type PolarUser = {
   readonly access_token: string;
   readonly balance: number;
@@ -35,25 +384,190 @@ type PolarUser = {
   readonly verified_user_access_token?: string;
   readonly customer_id?: string;
   readonly external_customer_id?: string;
+  readonly id?: string; // Account id (user:<id>); legacy accounts are keyed by access_token
+  readonly spend_limits?: SpendLimits; // Overrides Config.spendLimits for this user
+};
+
+// A free-tier allowance: `limit` requests per window, counted per client within `scope`
+type FreeQuota = {
+  readonly scope: string;
+  readonly limit: number;
+  readonly windowSeconds: number;
 };
 
-type RateLimitData = {
+// Free-tier rate limiting algorithm, selectable per deployment
+type RateLimitStrategy =
+  | { readonly kind: 'fixed_window' }
+  | { readonly kind: 'sliding_window_log' }
+  | { readonly kind: 'sliding_window_counter' }
+  | { readonly kind: 'token_bucket' };
+
+// Persisted state for each rate limit strategy
+type FixedWindowState = {
   readonly count: number;
   readonly resetTime: number;
 };
 
+type SlidingWindowLogState = {
+  readonly timestamps: readonly number[];
+};
+
+type SlidingWindowCounterState = {
+  readonly windowStart: number;
+  readonly count: number;
+  readonly previousCount: number;
+};
+
+type TokenBucketState = {
+  readonly tokens: number;
+  readonly updatedAt: number;
+};
+
+// Pure rate limit transition: the state to persist and the resulting decision
+type RateLimitStep<S> = {
+  readonly next: S;
+  readonly result: RateLimitResult;
+};
+
+// Declarative pricing for one route, keyed on Config.pricing by "[METHOD ]/path/pattern"
+type RoutePricing = {
+  readonly price?: number;
+  readonly metered?: MeteredPricing;
+  readonly free?: boolean;
+  readonly countsAgainstFreeTier?: boolean;
+  readonly freeQuota?: number;
+  readonly freeQuotaWindowSeconds?: number;
+  readonly scope?: string;
+  readonly cache?: CacheBilling;
+  readonly stream?: StreamPricing;
+  readonly billableStatuses?: readonly StatusPattern[];
+};
+
+// A handler status, or a whole status class such as '2xx'
+type StatusPattern = number | `${1 | 2 | 3 | 4 | 5}xx`;
+
+// Handler response headers passed through to the client: only `allow` when given, never `deny`
+type ResponseHeaderConfig = {
+  readonly allow?: readonly string[];
+  readonly deny?: readonly string[];
+};
+
+// Streamed responses (e.g. text/event-stream) are forwarded as they arrive and billed at stream start.
+// On metered routes `meter` settles on the chunks or estimated tokens forwarded instead, and `cache`
+// tees streams billed at start into the cache, up to MAX_CACHED_BODY_BYTES (event streams never are)
+type StreamPricing = {
+  readonly meter?: 'chunks' | 'tokens' | ((chunk: Uint8Array) => number);
+  readonly cache?: boolean;
+};
+
+// Usage-based pricing: hold `maxPrice` up front, settle to reported units x `unitPrice`
+type MeteredPricing = {
+  readonly maxPrice: number;
+  readonly unitPrice?: number;
+};
+
+// One usage report from a handler, via context.meter() or the X-Meter-Units header
+type MeterEvent = {
+  readonly units: number;
+  readonly reason?: string;
+};
+
+// Pricing policy resolved for a single request
+type RoutePolicy = {
+  readonly price: number;
+  readonly metered?: MeteredPricing;
+  readonly free: boolean;
+  readonly freeQuotas: readonly FreeQuota[];
+  readonly scope?: string;
+  readonly cache?: CacheBilling;
+  readonly stream?: StreamPricing;
+  readonly billableStatuses?: readonly StatusPattern[];
+};
+
+// How cache hits on a route are billed: free serves a shared entry to anyone without billing,
+// discounted and full bill hits like requests at a lower or the full price, private keeps one
+// entry per caller and serves it back to that caller for free
+type CacheBilling =
+  | { readonly kind: 'free' }
+  | { readonly kind: 'discounted'; readonly price: number }
+  | { readonly kind: 'full' }
+  | { readonly kind: 'private' };
+
+// Request attributes a cache key is built from; `partition` names the caller a per-caller entry belongs to
+type CacheKeyParts = {
+  readonly method: string;
+  readonly pathname: string;
+  readonly searchParams: URLSearchParams;
+  readonly format: ResponseFormat;
+  readonly headers: Headers;
+  readonly partition?: string;
+};
+
+// What cache entries vary on besides version, path, query and format; `build` rewrites the final key
+type CacheKeyConfig = {
+  readonly varyOnUser?: boolean;
+  readonly varyOnMethod?: boolean;
+  readonly varyOnHeaders?: readonly string[];
+  readonly build?: (parts: CacheKeyParts, defaultKey: string) => string;
+};
+
+// Stale-serving windows past a cache entry's lifetime (RFC 5861) and the lease that lets one request recompute a miss
+type CacheRevalidationConfig = {
+  readonly staleWhileRevalidateSeconds?: number;
+  readonly staleIfErrorSeconds?: number;
+  readonly leaseSeconds?: number;
+};
+
+// Pricing entry compiled into a matcher
+type CompiledRoute = {
+  readonly key: string;
+  readonly method?: string;
+  readonly pattern: URLPattern;
+  readonly pricing: RoutePricing;
+};
+
+// Proxy headers that may carry the originating client address
+type TrustedProxyHeader = 'x-forwarded-for' | 'forwarded' | 'cf-connecting-ip';
+
+// Proxies in front of the server whose forwarding headers can be trusted
+type TrustedProxyConfig = {
+  readonly headers: readonly TrustedProxyHeader[];
+  readonly hops: number;
+};
+
 type Config = {
   readonly version: number;
   readonly priceCredit: number;
   readonly freeRatelimit: number;
   readonly freeRateLimitResetSeconds: number;
+  readonly rateLimitStrategy?: RateLimitStrategy;
+  readonly pricing?: Readonly<Record<string, RoutePricing>>;
   readonly cacheSeconds?: number;
+  readonly cacheBilling?: CacheBilling;
+  readonly cacheKey?: CacheKeyConfig;
+  readonly cacheRevalidation?: CacheRevalidationConfig;
+  readonly billableStatuses?: readonly StatusPattern[];
+  readonly responseHeaders?: ResponseHeaderConfig;
+  readonly chargeMaxAttempts?: number;
+  readonly trustedProxy?: TrustedProxyConfig;
+  readonly getClientId?: (request: Request, info?: Deno.ServeHandlerInfo) => string | undefined | Promise<string | undefined>;
   readonly getUserByToken?: (token: string, kv: Deno.Kv) => Promise<PolarUser | null>;
+  readonly polarWebhook?: PolarWebhookConfig;
+  readonly checkout?: CheckoutConfig;
+  readonly payments?: PaymentConfig;
+  readonly apiKeys?: ApiKeyConfig;
+  readonly spendLimits?: SpendLimits;
+  readonly budgetAlerts?: BudgetAlertConfig;
+  readonly authFailureMode?: 'strict' | 'lenient';
+  readonly notModifiedBilling?: 'free' | 'billed';
+  readonly billingPolicy?: BillingPolicy;
   readonly fetch: (request: Request, context: Context) => Promise<Response>;
 };
 
 type Context = {
   readonly user?: PolarUser;
+  readonly clientId?: string;
+  readonly meter?: (units: number, reason?: string) => void;
   readonly kv: Deno.Kv;
   readonly env: Record<string, string>;
 };
@@ -68,7 +582,7 @@ type RequestData = {
 
 // === RESULT TYPE UTILITIES ===
 
-const ok = <T>(value: T): Result<T> => ({ kind: 'ok', value });
+const ok = <T>(value: T): Result<T, never> => ({ kind: 'ok', value });
 const err = <E>(error: E): Result<never, E> => ({ kind: 'err', error });
 
 const isOk = <T, E>(result: Result<T, E>): result is Extract<Result<T, E>, { kind: 'ok' }> =>
@@ -95,21 +609,576 @@ const parseRequestData = (request: Request): RequestData & { isHtmxRequest: bool
   };
 };
 
-// Determine response format using pattern matching
-const getResponseFormat = (requestData: RequestData): ResponseFormat => {
+// Media types of each response format, primary type first, in the server's order of preference
+const FORMAT_MEDIA_TYPES: ReadonlyArray<readonly [ResponseFormat, readonly [string, ...string[]]]> = [
+  ['json', ['application/json']],
+  ['html', ['text/html']],
+  ['markdown', ['text/markdown']],
+  ['text', ['text/plain']],
+  ['yaml', ['application/yaml', 'text/yaml', 'application/x-yaml']],
+  ['csv', ['text/csv']],
+  ['ndjson', ['application/x-ndjson', 'application/ndjson']],
+];
+
+// Media ranges of an Accept header; malformed ranges and quality values are dropped
+const parseAcceptHeader = (header: string): readonly MediaRange[] =>
+  header.split(',').flatMap((part) => {
+    const [range = '', ...params] = part.split(';').map((piece) => piece.trim());
+    const [type, subtype] = range.toLowerCase().split('/');
+    const qParam = params.find((param) => /^q=/i.test(param));
+    const q = qParam ? Number(qParam.slice(2)) : 1;
+
+    return type && subtype && (type !== '*' || subtype === '*') && Number.isFinite(q) && q >= 0 && q <= 1
+      ? [{ type, subtype, q }]
+      : [];
+  });
+
+// Quality of a media type: the most specific matching range decides (RFC 9110, section 12.5.1)
+const acceptQuality = (ranges: readonly MediaRange[], mediaType: string): number => {
+  const [type, subtype] = mediaType.split('/');
+  const specificity = (range: MediaRange) => (range.type === '*' ? 0 : 1) + (range.subtype === '*' ? 0 : 1);
+  const [best] = ranges
+    .filter((range) => (range.type === '*' || range.type === type) && (range.subtype === '*' || range.subtype === subtype))
+    .sort((a, b) => specificity(b) - specificity(a));
+
+  return best?.q ?? 0;
+};
+
+// Determine response format: a file extension wins, otherwise the Accept header is negotiated
+// with q-values and wildcards; null when the client accepts none of the formats
+const getResponseFormat = (requestData: RequestData): ResponseFormat | null => {
   const ext = requestData.pathname.split('.').pop()?.toLowerCase();
 
   return match(ext)
     .with('html', () => 'html' as const)
     .with('md', 'markdown', () => 'markdown' as const)
-    .otherwise(() =>
-      match(requestData.acceptHeader)
-        .when((header: string) => header.includes('text/html'), () => 'html' as const)
-        .when((header: string) => header.includes('text/markdown'), () => 'markdown' as const)
-        .otherwise(() => 'json' as const)
+    .with('json', () => 'json' as const)
+    .with('txt', () => 'text' as const)
+    .with('yaml', 'yml', () => 'yaml' as const)
+    .with('csv', () => 'csv' as const)
+    .with('ndjson', () => 'ndjson' as const)
+    .otherwise(() => {
+      const ranges = parseAcceptHeader(requestData.acceptHeader);
+      if (ranges.length === 0) return 'json';
+
+      // Stable sort keeps the server's preference among equal qualities
+      const [best] = FORMAT_MEDIA_TYPES
+        .map(([format, mediaTypes]) => ({ format, q: Math.max(...mediaTypes.map((mediaType) => acceptQuality(ranges, mediaType))) }))
+        .filter(({ q }) => q > 0)
+        .sort((a, b) => b.q - a.q);
+      return best?.format ?? null;
+    });
+};
+
+// The shared free tier configured by freeRatelimit / freeRateLimitResetSeconds
+const globalFreeQuota = (config: Config): FreeQuota => ({
+  scope: 'global',
+  limit: config.freeRatelimit,
+  windowSeconds: config.freeRateLimitResetSeconds,
+});
+
+// Policy for routes without a pricing entry: global price and shared free tier
+const defaultRoutePolicy = (config: Config): RoutePolicy => ({
+  price: config.priceCredit,
+  free: false,
+  freeQuotas: [globalFreeQuota(config)],
+});
+
+// Compile Config.pricing entries ("GET /api/items/:id", "/api/*") into URLPattern matchers
+const compileRoutes = (pricing: Readonly<Record<string, RoutePricing>> = {}): readonly CompiledRoute[] =>
+  Object.entries(pricing).map(([key, routePricing]) => {
+    const methodMatch = key.match(/^([A-Z]+|\*)\s+(\S+)$/);
+    const method = methodMatch && methodMatch[1] !== '*' ? methodMatch[1] : undefined;
+    const pathname = methodMatch ? methodMatch[2] : key.trim();
+
+    return { key, method, pattern: new URLPattern({ pathname }), pricing: routePricing };
+  });
+
+// Resolve the pricing policy for a request; the first matching route wins
+const resolveRoutePolicy = (routes: readonly CompiledRoute[], config: Config) =>
+  (method: string, url: URL): RoutePolicy => {
+    const route = routes.find((candidate) =>
+      (!candidate.method || candidate.method === method) && candidate.pattern.test({ pathname: url.pathname })
+    );
+    const pricing = route?.pricing ?? {};
+
+    const routeQuota: readonly FreeQuota[] = route && pricing.freeQuota !== undefined
+      ? [{
+        scope: `route:${route.key}`,
+        limit: pricing.freeQuota,
+        windowSeconds: pricing.freeQuotaWindowSeconds ?? config.freeRateLimitResetSeconds,
+      }]
+      : [];
+    const sharedQuota = pricing.countsAgainstFreeTier ?? true ? [globalFreeQuota(config)] : [];
+
+    return {
+      price: pricing.price ?? config.priceCredit,
+      free: pricing.free ?? false,
+      freeQuotas: [...sharedQuota, ...routeQuota],
+      ...(pricing.metered ? { metered: pricing.metered } : {}),
+      ...(pricing.scope ? { scope: pricing.scope } : {}),
+      ...(pricing.cache ?? config.cacheBilling ? { cache: pricing.cache ?? config.cacheBilling } : {}),
+      ...(pricing.stream ? { stream: pricing.stream } : {}),
+      ...(pricing.billableStatuses ?? config.billableStatuses
+        ? { billableStatuses: pricing.billableStatuses ?? config.billableStatuses }
+        : {}),
+    };
+  };
+
+// Cache billing of a route: free routes share their cache for free, priced routes bill hits at full price by default
+const resolveCacheBilling = (route: RoutePolicy): CacheBilling =>
+  route.cache ?? (route.free ? { kind: 'free' } : { kind: 'full' });
+
+// Whether a handler status is charged on a route; by default only 2xx responses are
+const isBillableStatus = (route: RoutePolicy, status: number): boolean =>
+  (route.billableStatuses ?? ['2xx']).some((pattern) =>
+    typeof pattern === 'number' ? pattern === status : Math.floor(status / 100) === Number(pattern[0])
+  );
+
+// Pricing that applies when a request is answered from the cache; hits never run the handler, so nothing
+// is metered, and cached statuses the route doesn't bill are served for free
+const cacheHitPolicy = (route: RoutePolicy, status: number): RoutePolicy => {
+  const { metered: _metered, ...unmetered } = route;
+
+  if (!isBillableStatus(route, status)) {
+    return { ...unmetered, free: true };
+  }
+
+  return match(resolveCacheBilling(route))
+    .with({ kind: 'free' }, { kind: 'private' }, () => ({ ...unmetered, free: true }))
+    .with({ kind: 'discounted' }, ({ price }) => ({ ...unmetered, price, free: route.free || price <= 0 }))
+    .with({ kind: 'full' }, () => unmetered)
+    .exhaustive();
+};
+
+// Response header a handler can use instead of context.meter() to report usage
+const METER_UNITS_HEADER = 'X-Meter-Units';
+
+// Read the usage reported through the response header, if any
+const getHeaderMeterEvents = (response: Response): readonly MeterEvent[] => {
+  const units = Number(response.headers.get(METER_UNITS_HEADER) ?? NaN);
+  return Number.isFinite(units) && units >= 0 ? [{ units, reason: METER_UNITS_HEADER }] : [];
+};
+
+// A handler response's media type without parameters, lowercased ('' when it has none)
+const responseMediaType = (response: Response): string =>
+  (response.headers.get('Content-Type') ?? '').split(';')[0].trim().toLowerCase();
+
+// Whether a handler body is text the response format applies to; anything else is passed through as bytes
+const isTextResponse = (response: Response): boolean => {
+  const type = responseMediaType(response);
+
+  return type === '' || type.startsWith('text/') || type.endsWith('+json') || type.endsWith('+xml') ||
+    ['application/json', 'application/xml', 'application/javascript', 'application/x-ndjson', 'application/yaml'].includes(type);
+};
+
+// Whether a handler response is a server-sent event stream
+const isEventStream = (response: Response): boolean =>
+  (response.headers.get('Content-Type') ?? '').toLowerCase().startsWith('text/event-stream');
+
+// Units a streamed chunk counts for: one per chunk, or estimated tokens at four bytes each
+const streamUnitCounter = (meter: NonNullable<StreamPricing['meter']>): (chunk: Uint8Array) => number =>
+  match(meter)
+    .with('chunks', () => () => 1)
+    .with('tokens', () => (chunk: Uint8Array) => Math.ceil(chunk.byteLength / 4))
+    .otherwise((count) => count);
+
+// Forward a stream chunk by chunk, counting units and stopping once `maxUnits` is reached;
+// `settle` runs once with the units forwarded when the stream ends, fails or is cancelled
+const meterStream = (
+  source: ReadableStream<Uint8Array>,
+  countUnits: (chunk: Uint8Array) => number,
+  maxUnits: number,
+  settle: (units: number) => Promise<void>
+): ReadableStream<Uint8Array> => {
+  const reader = source.getReader();
+  const progress = { units: 0, settled: false };
+  const finish = async () => {
+    if (!progress.settled) {
+      progress.settled = true;
+      await settle(progress.units);
+    }
+  };
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const chunk = await reader.read().catch(async (error) => {
+        await finish();
+        throw error;
+      });
+
+      if (chunk.done) {
+        await finish();
+        controller.close();
+        return;
+      }
+
+      progress.units += countUnits(chunk.value);
+      controller.enqueue(chunk.value);
+
+      if (progress.units >= maxUnits) {
+        await reader.cancel();
+        await finish();
+        controller.close();
+      }
+    },
+    async cancel(reason) {
+      await reader.cancel(reason);
+      await finish();
+    },
+  });
+};
+
+// Buffer a stream for the cache, or null once it grows past `maxBytes`; the stream is then cancelled so
+// the rest is never held in memory
+const bufferStream = (source: ReadableStream<Uint8Array>, maxBytes: number): Promise<Uint8Array<ArrayBuffer> | null> => {
+  const reader = source.getReader();
+  const buffered = { chunks: [] as Uint8Array[], bytes: 0 };
+  const next = async (): Promise<Uint8Array<ArrayBuffer> | null> => {
+    const chunk = await reader.read();
+
+    if (chunk.done) {
+      const body = new Uint8Array(buffered.bytes);
+      buffered.chunks.reduce((offset, part) => (body.set(part, offset), offset + part.byteLength), 0);
+      return body;
+    }
+
+    buffered.bytes += chunk.value.byteLength;
+    if (buffered.bytes > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+
+    buffered.chunks.push(chunk.value);
+    return await next();
+  };
+
+  return next();
+};
+
+// Settle a metered request: reported units x unit price (or the route price when nothing was reported), capped at the hold
+const settleMeteredAmount = (metered: MeteredPricing, price: number) =>
+  (events: readonly MeterEvent[]): number => {
+    const amount = events.length === 0
+      ? price
+      : Math.ceil(events.reduce((sum, event) => sum + event.units, 0) * (metered.unitPrice ?? 1));
+
+    return Math.min(metered.maxPrice, Math.max(0, amount));
+  };
+
+// Read a credit amount from Polar metadata ({ credits: 100 } or { credits: "100" })
+const readMetadataCredits = (metadata?: Readonly<Record<string, unknown>>): number | undefined => {
+  const credits = Number(metadata?.credits ?? NaN);
+  return Number.isFinite(credits) && credits > 0 ? credits : undefined;
+};
+
+// Default credit amount of an event: order/subscription metadata, then product metadata
+const defaultCreditsForEvent = (event: PolarWebhookEvent): number =>
+  readMetadataCredits(event.data.metadata) ?? readMetadataCredits(event.data.product?.metadata) ?? 0;
+
+// Map a verified Polar event to its balance effect
+const mapPolarEvent = (config: Config) =>
+  (event: PolarWebhookEvent): PolarEventAction => {
+    const credits = (config.polarWebhook?.creditsForEvent ?? defaultCreditsForEvent)(event);
+    const externalCustomerId = event.data.customer?.external_id;
+
+    if (!externalCustomerId || credits <= 0) {
+      return { kind: 'ignore' };
+    }
+
+    return match(event.type)
+      .with('order.paid', () =>
+        ({ kind: 'adjust', ledgerKind: 'credit', amount: credits, externalCustomerId, reason: 'order_paid' }) as const
+      )
+      .with('order.refunded', () => {
+        // Partial refunds claw back a proportional share of the credits; refunded_amount is the order's running total
+        const { id, amount, refunded_amount } = event.data;
+        const share = amount && refunded_amount !== undefined ? Math.min(1, refunded_amount / amount) : 1;
+        const clawback = Math.round(credits * share);
+        return {
+          kind: 'adjust',
+          ledgerKind: 'debit',
+          amount: -clawback,
+          externalCustomerId,
+          reason: 'order_refunded',
+          ...(id ? { orderId: id } : {}),
+        } as const;
+      })
+      .with('subscription.active', () =>
+        ({ kind: 'adjust', ledgerKind: 'grant', amount: credits, externalCustomerId, reason: 'subscription_active' }) as const
+      )
+      .otherwise(() => ({ kind: 'ignore' }) as const);
+  };
+
+// Strip brackets, ports and zone ids from an address as found in headers or remoteAddr
+const stripAddress = (address: string): string => {
+  const trimmed = address.trim().replace(/^"|"$/g, '');
+  const bracketed = trimmed.match(/^\[([^\]]+)\](?::\d+)?$/);
+  const unbracketed = bracketed ? bracketed[1] : trimmed;
+  const withoutPort = /^[\d.]+:\d+$/.test(unbracketed) ? unbracketed.split(':')[0] : unbracketed;
+  return withoutPort.split('%')[0].toLowerCase();
+};
+
+// Expand an IPv6 address into its eight hextets (null when not IPv6)
+const expandIPv6 = (address: string): readonly number[] | null => {
+  if (!address.includes(':')) {
+    return null;
+  }
+
+  const [head, tail, ...rest] = address.split('::');
+  if (rest.length > 0) {
+    return null;
+  }
+
+  const toHextets = (part: string | undefined): readonly string[] => part ? part.split(':') : [];
+  const headParts = toHextets(head);
+  const tailParts = toHextets(tail);
+  const missing = 8 - headParts.length - tailParts.length;
+
+  if (tail === undefined ? missing !== 0 : missing < 0) {
+    return null;
+  }
+
+  const hextets = [...headParts, ...Array(missing).fill('0'), ...tailParts]
+    .map((part) => /^[0-9a-f]{1,4}$/.test(part) ? parseInt(part, 16) : NaN);
+
+  return hextets.some(Number.isNaN) ? null : hextets;
+};
+
+// Normalize a client address: IPv4 as-is, IPv4-mapped IPv6 unwrapped, IPv6 grouped by /64 prefix
+const normalizeClientAddress = (address: string): string => {
+  const stripped = stripAddress(address);
+  const mapped = stripped.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+
+  if (mapped) {
+    return mapped[1];
+  }
+
+  const hextets = expandIPv6(stripped);
+
+  if (!hextets) {
+    return stripped;
+  }
+
+  return `${hextets.slice(0, 4).map((hextet) => hextet.toString(16)).join(':')}::/64`;
+};
+
+// Pick the client entry from a proxy chain, skipping the entries appended by trusted hops
+const pickFromChain = (chain: readonly string[], hops: number): string | undefined =>
+  chain.length === 0 ? undefined : chain[Math.max(0, chain.length - hops)];
+
+// Extract the forwarded client address from one trusted proxy header
+const getForwardedAddress = (headers: Headers, hops: number) =>
+  (header: TrustedProxyHeader): string | undefined => {
+    const value = headers.get(header);
+
+    if (!value) {
+      return undefined;
+    }
+
+    return match(header)
+      .with('cf-connecting-ip', () => value.trim() || undefined)
+      .with('x-forwarded-for', () =>
+        pickFromChain(value.split(',').map((entry) => entry.trim()).filter(Boolean), hops)
+      )
+      .with('forwarded', () =>
+        pickFromChain(
+          value.split(',')
+            .map((element) => element.split(';').map((pair) => pair.trim()).find((pair) => /^for=/i.test(pair)))
+            .filter((pair): pair is string => pair !== undefined)
+            .map((pair) => pair.slice(4)),
+          hops
+        )
+      )
+      .exhaustive();
+  };
+
+// Resolve the client address from trusted proxy headers, falling back to the socket address
+const resolveClientAddress = (config: Config) =>
+  (request: Request, info?: Deno.ServeHandlerInfo): string | undefined => {
+    const proxy = config.trustedProxy;
+    const forwarded = proxy && proxy.hops > 0
+      ? proxy.headers.map(getForwardedAddress(request.headers, proxy.hops)).find((address) => address !== undefined)
+      : undefined;
+
+    const remoteAddr = info?.remoteAddr;
+    const socketAddress = remoteAddr && 'hostname' in remoteAddr ? remoteAddr.hostname : undefined;
+
+    return forwarded ?? socketAddress;
+  };
+
+// Whose free quota a caller consumes under a billing policy, or null when the free tier doesn't apply
+const freeQuotaSubject = (policy: BillingPolicy) =>
+  (userState: UserState): string | null =>
+    match([policy.kind, userState] as const)
+      .with(['paid_only', P._], () => null)
+      .with([P._, { kind: P.union('anonymous', 'invalid_token', 'lookup_failed') }], ([, { clientId }]) => clientId)
+      .with(['free_quota_first', { kind: P.union('authenticated', 'insufficient_balance') }], ([, { user }]) => userIdOf(user))
+      .with(['paid_first', { kind: 'insufficient_balance' }], ([, { user }]) => userIdOf(user))
+      .with(['paid_first', { kind: 'authenticated' }], () => null)
+      .with(['free_for_anonymous_only', { kind: P.union('authenticated', 'insufficient_balance') }], () => null)
+      .exhaustive();
+
+// Decide how to bill a request from the caller, the route and the free-quota outcome
+// (null when not consulted; ignored when the policy keeps this caller off the free tier)
+const decideBilling = (policy: BillingPolicy) =>
+  (userState: UserState, route: RoutePolicy, quotaOutcome: RateLimitResult | null): BillingDecision => {
+    if (route.free) {
+      return { kind: 'free' };
+    }
+
+    const freeQuota = freeQuotaSubject(policy)(userState) === null ? null : quotaOutcome;
+    const rateLimit = freeQuota ? { rateLimit: freeQuota } : {};
+
+    if (freeQuota?.kind === 'allowed' || freeQuota?.kind === 'free') {
+      return { kind: 'free', ...rateLimit };
+    }
+
+    return match(userState)
+      .with({ kind: 'authenticated' }, () =>
+        ({ kind: 'charge', amount: route.metered?.maxPrice ?? route.price }) as const
+      )
+      .with({ kind: 'insufficient_balance' }, () =>
+        ({
+          kind: 'deny',
+          reason: freeQuota?.kind === 'exceeded' ? 'free_quota_exhausted' : 'insufficient_balance',
+          ...rateLimit,
+        }) as const
+      )
+      .with({ kind: 'anonymous' }, { kind: 'invalid_token' }, { kind: 'lookup_failed' }, () =>
+        ({
+          kind: 'deny',
+          reason: freeQuota?.kind === 'exceeded' ? 'free_quota_exhausted' : 'payment_required',
+          ...rateLimit,
+        }) as const
+      )
+      .exhaustive();
+  };
+
+// Account id of a user: the suffix of its user:<id> KV key
+const userIdOf = (user: PolarUser): string => user.id ?? user.access_token;
+
+// Whether a request may use a scope: scopes only restrict API keys, which need the scope or "*"
+const hasScope = (apiKey: ApiKey | undefined, scope: string | undefined): boolean =>
+  scope === undefined || !apiKey || apiKey.scopes.includes('*') || apiKey.scopes.includes(scope);
+
+// Settings of a key minted or rotated by an API key, bounded by the caller's own: only scopes it holds, and at most
+// its remaining budget, lifetime and spend limits; unset settings inherit the caller's. Fails with a scope it can't grant
+const boundKeyOptions = (caller: ApiKey, now: number) =>
+  (options: ApiKeyOptions): Result<ApiKeyOptions, string> => {
+    const scopes = options.scopes ?? caller.scopes;
+    const ungranted = scopes.find((scope) => !hasScope(caller, scope));
+    if (ungranted !== undefined) {
+      return err(ungranted);
+    }
+
+    const atMost = (requested: number | undefined, bound: number | undefined) =>
+      bound === undefined ? requested : Math.min(requested ?? bound, bound);
+    const spendCap = atMost(options.spendCap, caller.spendCap === undefined ? undefined : Math.max(0, caller.spendCap - caller.spent));
+    const expiresInSeconds = atMost(
+      options.expiresInSeconds,
+      caller.expiresAt === undefined ? undefined : Math.max(0, (Date.parse(caller.expiresAt) - now) / 1000),
+    );
+    const limits: SpendLimits = Object.fromEntries(
+      (['daily', 'monthly', 'requestsPerMinute'] as const).flatMap((name) => {
+        const limit = atMost(options.limits?.[name], caller.limits?.[name]);
+        return limit === undefined ? [] : [[name, limit]];
+      }),
     );
+
+    return ok({
+      ...(options.name ? { name: options.name } : {}),
+      scopes,
+      ...(spendCap !== undefined ? { spendCap } : {}),
+      ...(expiresInSeconds !== undefined ? { expiresInSeconds } : {}),
+      ...(Object.keys(limits).length > 0 ? { limits } : {}),
+    });
+  };
+
+// Spend limits of a user: the configured defaults overridden per user
+const resolveSpendLimits = (config: Config) =>
+  (user: PolarUser): SpendLimits => ({ ...config.spendLimits, ...user.spend_limits });
+
+// Read spend limits from untrusted JSON, keeping only non-negative numbers
+const parseSpendLimits = (value: unknown): SpendLimits | undefined => {
+  if (typeof value !== 'object' || value === null) {
+    return undefined;
+  }
+
+  const entries = (['daily', 'monthly', 'requestsPerMinute'] as const)
+    .map((name) => [name, (value as Record<string, unknown>)[name]] as const)
+    .filter((entry): entry is readonly [keyof SpendLimits, number] => typeof entry[1] === 'number' && entry[1] >= 0);
+
+  return entries.length > 0 ? Object.fromEntries(entries) as SpendLimits : undefined;
+};
+
+// Day and month spend counters a change made now falls into, for the user and optionally a key
+const spendCounters = (userId: string, apiKeyId: string | undefined, now: number): readonly SpendCounter[] => {
+  const iso = new Date(now).toISOString();
+  const owners: ReadonlyArray<readonly [SpendScope, string]> = [['user', userId], ...(apiKeyId ? [['key', apiKeyId] as const] : [])];
+
+  return owners.flatMap(([scope, id]) => [
+    { scope, period: 'daily' as const, key: [`spend:${scope}:${id}`, iso.slice(0, 10)], expireIn: 2 * 86_400_000 },
+    { scope, period: 'monthly' as const, key: [`spend:${scope}:${id}`, iso.slice(0, 7)], expireIn: 32 * 86_400_000 },
+  ]);
+};
+
+// Seconds until the current UTC day or month ends
+const secondsUntilPeriodEnd = (period: SpendPeriod, now: number): number => {
+  const date = new Date(now);
+  const end = period === 'daily'
+    ? Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1)
+    : Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+  return Math.ceil((end - now) / 1000);
+};
+
+// Thresholds a balance change crossed on the way down
+const crossedThresholds = (thresholds: readonly number[], previousBalance: number, balance: number): readonly number[] =>
+  thresholds.filter((threshold) => previousBalance >= threshold && balance < threshold);
+
+// Headers of the agent payment protocol
+const PAYMENT_HEADER = 'X-Payment';
+const PAYMENT_REQUIRED_HEADER = 'X-Payment-Required';
+const PAYMENT_RESPONSE_HEADER = 'X-Payment-Response';
+
+// Default lifetime of a payment requirements nonce
+const DEFAULT_PAYMENT_REQUIREMENTS_TTL_SECONDS = 300;
+
+// Base64-encode a JSON value (UTF-8 safe) for use in a header
+const encodePaymentHeader = (value: unknown): string =>
+  btoa(String.fromCharCode(...new TextEncoder().encode(JSON.stringify(value))));
+
+// Decode and shape-check an X-Payment header
+const parsePaymentProof = (header: string): Result<PaymentProof, PaymentError> => {
+  try {
+    const bytes = Uint8Array.from(atob(header.trim()), (char) => char.charCodeAt(0));
+    const proof = JSON.parse(new TextDecoder().decode(bytes));
+
+    return typeof proof?.scheme === 'string' && typeof proof?.nonce === 'string'
+      ? ok({ scheme: proof.scheme, nonce: proof.nonce, payload: proof.payload })
+      : err({ kind: 'malformed_proof' } as const);
+  } catch {
+    return err({ kind: 'malformed_proof' } as const);
+  }
 };
 
+// Build the payment requirements for a resource: pay with credits, buy them via checkout, or use a verifier scheme
+const createPaymentRequirements = (config: Config) =>
+  (resource: string, price: number, checkout: string | undefined, nonce: string, now: number): PaymentRequirements => ({
+    version: 1,
+    resource,
+    price,
+    unit: 'credits',
+    ...(config.payments?.currency ? { currency: config.payments.currency } : {}),
+    ...(config.payments?.creditPrice !== undefined ? { creditPrice: config.payments.creditPrice } : {}),
+    schemes: ['credits', ...(checkout ? ['checkout'] : []), ...Object.keys(config.payments?.verifiers ?? {})],
+    ...(checkout ? { checkout } : {}),
+    nonce,
+    expiresAt: new Date(
+      now + (config.payments?.requirementsTtlSeconds ?? DEFAULT_PAYMENT_REQUIREMENTS_TTL_SECONDS) * 1000
+    ).toISOString(),
+  });
+
 // Create cache key deterministically
 const createCacheKey = (config: Config) =>
   (pathname: string, searchParams: URLSearchParams, format: ResponseFormat): string => {
@@ -121,341 +1190,2685 @@ const createCacheKey = (config: Config) =>
     return `cache:v${config.version}:${pathname}:${sortedParams}:${format}`;
   };
 
-// Simple markdown to HTML transformation (pure function)
-const markdownToHtml = (markdown: string): string =>
-  markdown
-    .replace(/^# (.*)/gm, '<h1>$1</h1>')
-    .replace(/^## (.*)/gm, '<h2>$1</h2>')
-    .replace(/^### (.*)/gm, '<h3>$1</h3>')
-    .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>')
-    .replace(/\*(.*?)\*/g, '<em>$1</em>')
-    .replace(/\n/g, '<br>');
+// Header names listed in a Vary header, lower-cased
+const parseVaryHeader = (value: string | null): readonly string[] =>
+  (value ?? '').split(',').map((name) => name.trim().toLowerCase()).filter((name) => name.length > 0);
+
+// Key of one cache variant: the base key plus method, varied request headers and the owning caller
+const createVariantCacheKey = (config: Config) =>
+  (parts: CacheKeyParts, varyHeaders: readonly string[]): string => {
+    const baseKey = createCacheKey(config)(parts.pathname, parts.searchParams, parts.format);
+    const headerNames = [...new Set([...(config.cacheKey?.varyOnHeaders ?? []), ...varyHeaders].map((name) => name.toLowerCase()))]
+      .sort();
+    const variant = [
+      ...(config.cacheKey?.varyOnMethod ? [`method=${parts.method}`] : []),
+      ...headerNames.map((name) => `${name}=${parts.headers.get(name) ?? ''}`),
+      ...(parts.partition ? [`caller=${parts.partition}`] : []),
+    ].join('&');
+    const key = variant ? `${baseKey}:${variant}` : baseKey;
+
+    return config.cacheKey?.build ? config.cacheKey.build(parts, key) : key;
+  };
+
+// Whether a conditional GET/HEAD can be answered with 304 (RFC 9110, section 13.2.2):
+// If-None-Match takes precedence over If-Modified-Since and compares ETags weakly
+const isNotModified = (request: Request, response: Response): boolean => {
+  if (!CACHEABLE_METHODS.includes(request.method) || response.status < 200 || response.status >= 300) {
+    return false;
+  }
+
+  const etag = response.headers.get('ETag');
+  const ifNoneMatch = request.headers.get('If-None-Match');
+
+  if (ifNoneMatch !== null) {
+    const opaqueTag = (tag: string) => tag.trim().replace(/^W\//, '');
+    return ifNoneMatch.split(',').some((tag) => tag.trim() === '*' || (etag !== null && opaqueTag(tag) === opaqueTag(etag)));
+  }
+
+  const ifModifiedSince = Date.parse(request.headers.get('If-Modified-Since') ?? '');
+  const lastModified = Date.parse(response.headers.get('Last-Modified') ?? '');
+
+  return Number.isFinite(ifModifiedSince) && Number.isFinite(lastModified) && lastModified <= ifModifiedSince;
+};
+
+// Methods served from the cache
+const CACHEABLE_METHODS: readonly string[] = ['GET', 'HEAD'];
+
+// Methods whose responses are stored: HEAD shares GET's key but carries no body, so it only reads GET entries
+const STORED_METHODS: readonly string[] = ['GET'];
+
+// Statuses cacheable by default (RFC 9110, section 15.1)
+const CACHEABLE_STATUSES: readonly number[] = [200, 203, 204, 300, 301, 308, 404, 405, 410, 414, 501];
+
+// Handler response headers stored with a cache entry and replayed on hits
+const CACHED_RESPONSE_HEADERS: readonly string[] = [
+  'cache-control',
+  'content-disposition',
+  'content-language',
+  'last-modified',
+  'link',
+  'location',
+  'vary',
+];
+
+// Handler headers that never pass through: hop-by-hop and body framing headers, and usage reports
+const DENIED_RESPONSE_HEADERS: readonly string[] = [
+  'connection',
+  'keep-alive',
+  'transfer-encoding',
+  'content-length',
+  'content-encoding',
+  'x-meter-units',
+];
+
+// Parse a Cache-Control header; malformed ages are ignored
+const parseCacheControl = (value: string | null): CacheDirectives => {
+  const directives = new Map(
+    (value ?? '').split(',')
+      .map((directive) => directive.trim().toLowerCase())
+      .filter((directive) => directive.length > 0)
+      .map((directive) => {
+        const [name, argument] = directive.split('=', 2);
+        return [name.trim(), argument?.trim().replace(/^"(.*)"$/, '$1')] as const;
+      })
+  );
+  const seconds = (name: string): number | undefined => {
+    const parsed = Number(directives.get(name));
+    return directives.has(name) && Number.isInteger(parsed) && parsed >= 0 ? parsed : undefined;
+  };
+  const maxAge = seconds('max-age');
+  const sMaxAge = seconds('s-maxage');
+  const staleWhileRevalidate = seconds('stale-while-revalidate');
+  const staleIfError = seconds('stale-if-error');
+
+  return {
+    noStore: directives.has('no-store'),
+    noCache: directives.has('no-cache'),
+    private: directives.has('private'),
+    public: directives.has('public'),
+    ...(maxAge !== undefined ? { maxAge } : {}),
+    ...(sMaxAge !== undefined ? { sMaxAge } : {}),
+    ...(staleWhileRevalidate !== undefined ? { staleWhileRevalidate } : {}),
+    ...(staleIfError !== undefined ? { staleIfError } : {}),
+  };
+};
+
+// Seconds a handler response may be cached for, or null when it must not be. Shared entries honor
+// s-maxage and private, and hold responses to authenticated requests only when marked public;
+// per-caller entries use max-age. Without either, config.cacheSeconds applies (0 disables caching).
+const cacheLifetime = (config: Config) =>
+  (method: string, response: Response, authenticated: boolean, perCaller: boolean): number | null => {
+    const directives = parseCacheControl(response.headers.get('Cache-Control'));
+    const storable = (config.cacheSeconds ?? 0) > 0 &&
+      STORED_METHODS.includes(method) &&
+      CACHEABLE_STATUSES.includes(response.status) &&
+      !directives.noStore &&
+      !directives.noCache &&
+      !parseVaryHeader(response.headers.get('Vary')).includes('*') &&
+      (perCaller || (!directives.private && (!authenticated || directives.public)));
+    const lifetime = (perCaller ? undefined : directives.sMaxAge) ?? directives.maxAge ?? config.cacheSeconds ?? 0;
+
+    return storable && lifetime > 0 ? lifetime : null;
+  };
+
+// Stale windows of a handler response: its own stale-while-revalidate and stale-if-error, else the configured ones
+const staleWindows = (config: Config) =>
+  (response: Response): { readonly staleWhileRevalidate: number; readonly staleIfError: number } => {
+    const directives = parseCacheControl(response.headers.get('Cache-Control'));
+
+    return {
+      staleWhileRevalidate: directives.staleWhileRevalidate ?? config.cacheRevalidation?.staleWhileRevalidateSeconds ?? 0,
+      staleIfError: directives.staleIfError ?? config.cacheRevalidation?.staleIfErrorSeconds ?? 0,
+    };
+  };
+
+// How usable a cache entry is at a point in time
+const cacheFreshness = (envelope: CacheEnvelope, now: number): CacheFreshness => {
+  const age = (now - envelope.storedAt) / 1000;
+
+  return age < envelope.maxAge
+    ? 'fresh'
+    : age < envelope.maxAge + envelope.staleWhileRevalidate
+    ? 'stale_while_revalidate'
+    : age < envelope.maxAge + envelope.staleIfError
+    ? 'stale_if_error'
+    : 'expired';
+};
+
+// The entry of a lookup if it can be served now: fresh, or stale while it is refreshed
+const usableEntry = (lookup: Result<CacheLookup>, now: number): CacheEnvelope | null =>
+  isOk(lookup) && lookup.value.entry !== null &&
+    ['fresh', 'stale_while_revalidate'].includes(cacheFreshness(lookup.value.entry, now))
+    ? lookup.value.entry
+    : null;
+
+// Fixed window: count requests until the window's reset time passes
+const fixedWindowStep = (quota: FreeQuota, now: number) =>
+  (state: FixedWindowState | null): RateLimitStep<FixedWindowState> => {
+    const { limit } = quota;
+    const windowMs = quota.windowSeconds * 1000;
+    const current = !state || now > state.resetTime
+      ? { count: 0, resetTime: now + windowMs }
+      : state;
+
+    if (current.count >= limit) {
+      return { next: current, result: { kind: 'exceeded', quota, resetTime: current.resetTime } };
+    }
+
+    const next = { ...current, count: current.count + 1 };
+    return { next, result: { kind: 'allowed', quota, remaining: limit - next.count, resetTime: current.resetTime } };
+  };
+
+// Sliding window log: keep one timestamp per request within the last window
+const slidingWindowLogStep = (quota: FreeQuota, now: number) =>
+  (state: SlidingWindowLogState | null): RateLimitStep<SlidingWindowLogState> => {
+    const { limit } = quota;
+    const windowMs = quota.windowSeconds * 1000;
+    const timestamps = (state?.timestamps ?? []).filter((timestamp) => timestamp > now - windowMs);
+
+    // A zero quota never frees up; report the end of the current window
+    if (limit <= 0) {
+      return { next: { timestamps }, result: { kind: 'exceeded', quota, resetTime: now + windowMs } };
+    }
+
+    if (timestamps.length >= limit) {
+      const resetTime = timestamps[timestamps.length - limit] + windowMs;
+      return { next: { timestamps }, result: { kind: 'exceeded', quota, resetTime } };
+    }
+
+    const next = { timestamps: [...timestamps, now] };
+    const resetTime = next.timestamps[0] + windowMs;
+    return { next, result: { kind: 'allowed', quota, remaining: limit - next.timestamps.length, resetTime } };
+  };
+
+// Sliding window counter: weight the previous window's count by its remaining overlap
+const slidingWindowCounterStep = (quota: FreeQuota, now: number) =>
+  (state: SlidingWindowCounterState | null): RateLimitStep<SlidingWindowCounterState> => {
+    const { limit } = quota;
+    const windowMs = quota.windowSeconds * 1000;
+    const windowStart = now - (now % windowMs);
+    const current: SlidingWindowCounterState = state?.windowStart === windowStart
+      ? state
+      : state?.windowStart === windowStart - windowMs
+        ? { windowStart, count: 0, previousCount: state.count }
+        : { windowStart, count: 0, previousCount: 0 };
+
+    const weight = 1 - (now - windowStart) / windowMs;
+    const estimate = current.previousCount * weight + current.count;
+
+    // A zero quota never frees up; report the end of the current window
+    if (limit <= 0) {
+      return { next: current, result: { kind: 'exceeded', quota, resetTime: windowStart + windowMs } };
+    }
+
+    if (estimate >= limit) {
+      // Earliest time the weighted estimate drops below the limit again
+      const resetTime = current.count >= limit
+        ? windowStart + windowMs + windowMs * (1 - limit / current.count)
+        : windowStart + windowMs * (1 - (limit - current.count) / current.previousCount);
+      return { next: current, result: { kind: 'exceeded', quota, resetTime: Math.ceil(resetTime) } };
+    }
+
+    const next = { ...current, count: current.count + 1 };
+    const remaining = Math.max(0, Math.floor(limit - estimate - 1));
+    return { next, result: { kind: 'allowed', quota, remaining, resetTime: windowStart + windowMs } };
+  };
+
+// Token bucket: capacity of `limit` tokens, refilled evenly over the window
+const tokenBucketStep = (quota: FreeQuota, now: number) =>
+  (state: TokenBucketState | null): RateLimitStep<TokenBucketState> => {
+    const { limit } = quota;
+    const windowMs = quota.windowSeconds * 1000;
+    const refillPerMs = limit / windowMs;
+    const tokens = state
+      ? Math.min(limit, state.tokens + (now - state.updatedAt) * refillPerMs)
+      : limit;
+
+    if (tokens < 1) {
+      // A zero quota never refills; report the end of the current window
+      const resetTime = limit > 0 ? now + Math.ceil((1 - tokens) / refillPerMs) : now + windowMs;
+      return { next: { tokens, updatedAt: now }, result: { kind: 'exceeded', quota, resetTime } };
+    }
+
+    const next = { tokens: tokens - 1, updatedAt: now };
+    const resetTime = now + Math.ceil((1 - (next.tokens % 1)) / refillPerMs);
+    return { next, result: { kind: 'allowed', quota, remaining: Math.floor(next.tokens), resetTime } };
+  };
+
+// Simple markdown to HTML transformation (pure function)
+const markdownToHtml = (markdown: string): string =>
+  markdown
+    .replace(/^# (.*)/gm, '<h1>$1</h1>')
+    .replace(/^## (.*)/gm, '<h2>$1</h2>')
+    .replace(/^### (.*)/gm, '<h3>$1</h3>')
+    .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>')
+    .replace(/\*(.*?)\*/g, '<em>$1</em>')
+    .replace(/\n/g, '<br>');
+
+// Escape text for an HTML element or attribute
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+// Handler text parsed as JSON, or undefined when it is not JSON
+const parseJsonBody = (text: string): JsonValue | undefined => {
+  try {
+    return JSON.parse(text) as JsonValue;
+  } catch {
+    return undefined;
+  }
+};
+
+const isJsonScalar = (value: JsonValue): value is null | boolean | number | string =>
+  value === null || typeof value !== 'object';
+
+const isJsonArray = (value: JsonValue): value is readonly JsonValue[] => Array.isArray(value);
+
+const isJsonRecord = (value: JsonValue): value is { readonly [key: string]: JsonValue } =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Arrays of objects render as tables, with one column per key seen in any row
+const isJsonTable = (value: JsonValue): value is readonly { readonly [key: string]: JsonValue }[] =>
+  isJsonArray(value) && value.length > 0 && value.every(isJsonRecord);
+
+const tableColumns = (rows: readonly { readonly [key: string]: JsonValue }[]): readonly string[] =>
+  [...new Set(rows.flatMap((row) => Object.keys(row)))];
+
+const scalarText = (value: null | boolean | number | string): string =>
+  value === null ? 'null' : String(value);
+
+// Render a JSON value as Markdown lines: tables for arrays of objects, nested lists for everything else
+const jsonMarkdownLines = (value: JsonValue, depth: number): readonly string[] => {
+  const indent = '  '.repeat(depth);
+  const cell = (item: JsonValue | undefined) =>
+    (item === undefined ? '' : isJsonScalar(item) ? scalarText(item) : JSON.stringify(item))
+      .replace(/\|/g, '\\|')
+      .replace(/\r?\n/g, ' ');
+  const item = (label: string, child: JsonValue) =>
+    isJsonScalar(child) ? [`${indent}${label} ${scalarText(child)}`] : [`${indent}${label}`, ...jsonMarkdownLines(child, depth + 1)];
+
+  if (isJsonTable(value)) {
+    const columns = tableColumns(value);
+    return [
+      `| ${columns.map(cell).join(' | ')} |`,
+      `| ${columns.map(() => '---').join(' | ')} |`,
+      ...value.map((row) => `| ${columns.map((column) => cell(row[column])).join(' | ')} |`),
+    ].map((line) => indent + line);
+  }
+  if (isJsonArray(value)) return value.flatMap((child) => item('-', child));
+  if (isJsonRecord(value)) return Object.entries(value).flatMap(([key, child]) => item(`- **${key}**:`, child));
+  return [indent + scalarText(value)];
+};
+
+// Render a JSON handler result as a Markdown document
+const jsonToMarkdown = (value: JsonValue): string => jsonMarkdownLines(value, 0).join('\n');
+
+// Render a JSON handler result as HTML: tables for arrays of objects, nested lists for everything else
+const jsonToHtml = (value: JsonValue): string => {
+  if (isJsonTable(value)) {
+    const columns = tableColumns(value);
+    const head = columns.map((column) => `<th>${escapeHtml(column)}</th>`).join('');
+    const rows = value
+      .map((row) => `<tr>${columns.map((column) => `<td>${column in row ? jsonToHtml(row[column]) : ''}</td>`).join('')}</tr>`)
+      .join('');
+    return `<table><thead><tr>${head}</tr></thead><tbody>${rows}</tbody></table>`;
+  }
+  if (isJsonArray(value)) return `<ul>${value.map((child) => `<li>${jsonToHtml(child)}</li>`).join('')}</ul>`;
+  if (isJsonRecord(value)) {
+    return `<ul>${Object.entries(value).map(([key, child]) => `<li><strong>${escapeHtml(key)}</strong>: ${jsonToHtml(child)}</li>`).join('')}</ul>`;
+  }
+  return escapeHtml(scalarText(value));
+};
+
+// Render a JSON handler result as plain text: tab-separated tables, indented `key: value` lines otherwise
+const jsonToText = (value: JsonValue): string => jsonTextLines(value, 0).join('\n');
+
+const jsonTextLines = (value: JsonValue, depth: number): readonly string[] => {
+  const indent = '  '.repeat(depth);
+  const cell = (item: JsonValue | undefined) =>
+    (item === undefined ? '' : isJsonScalar(item) ? scalarText(item) : JSON.stringify(item)).replace(/[\t\r\n]+/g, ' ');
+
+  if (isJsonTable(value)) {
+    const columns = tableColumns(value);
+    return [columns, ...value.map((row) => columns.map((column) => row[column]))]
+      .map((cells) => indent + cells.map(cell).join('\t'));
+  }
+  if (isJsonArray(value)) return value.flatMap((child) => jsonTextLines(child, depth));
+  if (isJsonRecord(value)) {
+    return Object.entries(value).flatMap(([key, child]) =>
+      isJsonScalar(child) ? [`${indent}${key}: ${scalarText(child)}`] : [`${indent}${key}:`, ...jsonTextLines(child, depth + 1)]
+    );
+  }
+  return [indent + scalarText(value)];
+};
+
+// YAML scalar: plain when it cannot be read as anything else, double-quoted (JSON syntax) otherwise
+const yamlScalar = (value: null | boolean | number | string): string =>
+  typeof value !== 'string'
+    ? scalarText(value)
+    : /^[A-Za-z_/][\w ./@-]*$/.test(value) && !/\s$/.test(value) &&
+        !/^(?:true|false|yes|no|on|off|null|y|n)$/i.test(value)
+    ? value
+    : JSON.stringify(value);
+
+const yamlLines = (value: JsonValue, depth: number): readonly string[] => {
+  const indent = '  '.repeat(depth);
+  // Nested collections start on the line after their key, or on the same line as their `- ` marker
+  const isInline = (child: JsonValue) => isJsonScalar(child) || (isJsonArray(child) ? child.length === 0 : Object.keys(child).length === 0);
+  const inline = (child: JsonValue) =>
+    isJsonScalar(child) ? yamlScalar(child) : isJsonArray(child) ? '[]' : '{}';
+
+  if (isJsonArray(value)) {
+    if (value.length === 0) return [`${indent}[]`];
+    return value.flatMap((child) => {
+      if (isInline(child)) return [`${indent}- ${inline(child)}`];
+      const [first = '', ...rest] = yamlLines(child, depth + 1);
+      return [`${indent}- ${first.slice(indent.length + 2)}`, ...rest];
+    });
+  }
+  if (isJsonRecord(value)) {
+    if (Object.keys(value).length === 0) return [`${indent}{}`];
+    return Object.entries(value).flatMap(([key, child]) =>
+      isInline(child) ? [`${indent}${yamlScalar(key)}: ${inline(child)}`] : [`${indent}${yamlScalar(key)}:`, ...yamlLines(child, depth + 1)]
+    );
+  }
+  return [indent + yamlScalar(value)];
+};
+
+// Render a JSON handler result as a YAML document
+const jsonToYaml = (value: JsonValue): string => `${yamlLines(value, 0).join('\n')}\n`;
+
+// Render a JSON handler result as RFC 4180 CSV: one row per record of an array of objects,
+// other results as a single `value` column
+const jsonToCsv = (value: JsonValue): string => {
+  const field = (item: JsonValue | undefined) => {
+    const text = item === undefined ? '' : isJsonScalar(item) ? scalarText(item) : JSON.stringify(item);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const records = isJsonRecord(value) ? [value] : value;
+  const columns = isJsonTable(records) ? tableColumns(records) : [];
+  const rows: readonly (readonly (JsonValue | undefined)[])[] = isJsonTable(records)
+    ? [columns, ...records.map((row) => columns.map((column) => row[column]))]
+    : [['value'], ...(isJsonArray(value) ? value : [value]).map((item) => [item])];
+
+  return rows.map((row) => `${row.map(field).join(',')}\r\n`).join('');
+};
+
+// Render a JSON handler result as newline-delimited JSON: one line per array item
+const jsonToNdjson = (value: JsonValue): string =>
+  (isJsonArray(value) ? value : [value]).map((item) => `${JSON.stringify(item)}\n`).join('');
+
+// Names in Vary headers merged into one list, lower-cased and without duplicates
+const mergeVary = (...values: readonly (string | null)[]): string =>
+  [...new Set(values.flatMap(parseVaryHeader))].join(', ');
+
+// Create CORS headers (pure function)
+const createCorsHeaders = (): Record<string, string> => ({
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Payment',
+  'Access-Control-Expose-Headers': 'RateLimit-Limit, RateLimit-Remaining, RateLimit-Reset, RateLimit-Policy, Retry-After, X-Credits-Remaining, X-Cache, WWW-Authenticate, X-Payment-Required, X-Payment-Response',
+});
+
+// === EFFECT FUNCTIONS (WITH EXPLICIT ERROR HANDLING) ===
+
+// Get user by token with Result type
+const getUserByToken = (kv: Deno.Kv) =>
+  async (accessToken: string): Promise<Result<PolarUser | null>> => {
+    try {
+      const result = await kv.get<PolarUser>([`user:${accessToken}`]);
+      return ok(result.value);
+    } catch (error) {
+      return err(error as Error);
+    }
+  };
+
+// Default number of optimistic attempts for contended atomic KV updates
+const DEFAULT_ATOMIC_ATTEMPTS = 16;
+
+// Longest wait between contended atomic attempts
+const MAX_CONTENTION_BACKOFF_MS = 1000;
+
+// Jittered exponential backoff between contended atomic attempts, starting at 10ms
+const contentionBackoff = (attempt: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, Math.random() * Math.min(MAX_CONTENTION_BACKOFF_MS, 10 * 2 ** attempt)));
+
+// Apply a rate limit step atomically, retrying when another request updated the same key
+const applyRateLimitStep = <S>(kv: Deno.Kv, key: Deno.KvKey, expireIn: number) =>
+  async (step: (state: S | null) => RateLimitStep<S>): Promise<Result<RateLimitResult>> => {
+    const attemptStep = async (attempt: number): Promise<Result<RateLimitResult>> => {
+      if (attempt >= DEFAULT_ATOMIC_ATTEMPTS) {
+        return err(new Error(`Rate limit contention after ${attempt} attempts`));
+      }
+
+      try {
+        const entry = await kv.get<S>(key);
+        const { next, result } = step(entry.value);
+        const commit = await kv.atomic().check(entry).set(key, next, { expireIn }).commit();
+
+        if (!commit.ok) {
+          await contentionBackoff(attempt);
+          return await attemptStep(attempt + 1);
+        }
+
+        return ok(result);
+      } catch (error) {
+        return err(error as Error);
+      }
+    };
+
+    return await attemptStep(0);
+  };
+
+// Consult the free tier when the billing policy calls for it, then decide how to bill the request
+const checkBilling = (kv: Deno.Kv, config: Config) =>
+  async (userState: UserState, policy: RoutePolicy = defaultRoutePolicy(config)): Promise<Result<BillingDecision>> => {
+    const billingPolicy = config.billingPolicy ?? { kind: 'paid_first' };
+    const subject = policy.free ? null : freeQuotaSubject(billingPolicy)(userState);
+    const freeQuota = subject ? await checkFreeQuotas(kv, config)(subject, policy.freeQuotas) : null;
+
+    if (freeQuota && isErr(freeQuota)) {
+      return freeQuota;
+    }
+
+    return ok(decideBilling(billingPolicy)(userState, policy, freeQuota?.value ?? null));
+  };
+
+// Helper for free rate limit checking, dispatching on the configured strategy
+const checkFreeRateLimit = (kv: Deno.Kv, config: Config) =>
+  async (clientId: string, quota: FreeQuota = globalFreeQuota(config)): Promise<Result<RateLimitResult>> => {
+    const strategy = config.rateLimitStrategy ?? { kind: 'sliding_window_counter' };
+    const windowMs = quota.windowSeconds * 1000;
+    const now = Date.now();
+    const key = [`ratelimit:${strategy.kind}:${quota.scope}:${clientId}`];
+
+    return await match(strategy)
+      .with({ kind: 'fixed_window' }, () =>
+        applyRateLimitStep<FixedWindowState>(kv, key, windowMs)(fixedWindowStep(quota, now))
+      )
+      .with({ kind: 'sliding_window_log' }, () =>
+        applyRateLimitStep<SlidingWindowLogState>(kv, key, windowMs)(slidingWindowLogStep(quota, now))
+      )
+      .with({ kind: 'sliding_window_counter' }, () =>
+        applyRateLimitStep<SlidingWindowCounterState>(kv, key, windowMs * 2)(slidingWindowCounterStep(quota, now))
+      )
+      .with({ kind: 'token_bucket' }, () =>
+        applyRateLimitStep<TokenBucketState>(kv, key, windowMs)(tokenBucketStep(quota, now))
+      )
+      .exhaustive();
+  };
+
+// Consume every free quota of a route in turn, stopping at the first one that is exhausted
+const checkFreeQuotas = (kv: Deno.Kv, config: Config) =>
+  (clientId: string, quotas: readonly FreeQuota[]): Promise<Result<RateLimitResult>> => {
+    const [quota, ...rest] = quotas;
+
+    if (!quota) {
+      return Promise.resolve(ok({ kind: 'payment_required' } as const));
+    }
+
+    return checkFreeRateLimit(kv, config)(clientId, quota).then(async (result) => {
+      if (isErr(result) || result.value.kind !== 'allowed' || rest.length === 0) {
+        return result;
+      }
+
+      const restResult = await checkFreeQuotas(kv, config)(clientId, rest);
+      const tighter = isOk(restResult) && restResult.value.kind === 'allowed' &&
+        restResult.value.remaining >= result.value.remaining;
+
+      return tighter ? result : restResult;
+    });
+  };
+
+// Atomically apply a balance change and append its ledger entry: it only commits if the user entry
+// is unchanged since it was read. With `once`, the change is applied at most once: its record is
+// written in the same commit and an existing record short-circuits with `already_applied`.
+// Spending changes also move the user's (and key's) day/month spend counters within their limits.
+const updateUserBalance = (kv: Deno.Kv, config: Config) =>
+  async (userId: string, change: BalanceChange): Promise<Result<PolarUser, ChargeError>> => {
+    const key = [`user:${userId}`];
+    const maxAttempts = config.chargeMaxAttempts ?? DEFAULT_ATOMIC_ATTEMPTS;
+    const { once, runningTotal } = change;
+    const apiKeyKey = change.details.apiKeyId ? [`api_key:${change.details.apiKeyId}`] : undefined;
+
+    const attemptUpdate = async (attempt: number): Promise<Result<PolarUser, ChargeError>> => {
+      if (attempt >= maxAttempts) {
+        return err({ kind: 'contention', attempts: attempt } as const);
+      }
+
+      try {
+        const now = Date.now();
+        const counters = change.countsAsSpend ? spendCounters(userId, change.details.apiKeyId, now) : [];
+        const [entry, onceEntry, totalEntry, apiKeyEntry, counterEntries] = await Promise.all([
+          kv.get<PolarUser>(key),
+          once ? kv.get(once.key) : undefined,
+          runningTotal ? kv.get<number>(runningTotal) : undefined,
+          apiKeyKey ? kv.get<ApiKey>(apiKeyKey) : undefined,
+          counters.length > 0 ? kv.getMany<number[]>(counters.map((counter) => counter.key)) : [],
+        ]);
+
+        if (onceEntry && onceEntry.versionstamp !== null) {
+          return err({ kind: 'already_applied' } as const);
+        }
+
+        if (!entry.value) {
+          return err({ kind: 'user_not_found' } as const);
+        }
+
+        const applied = change.apply(entry.value, totalEntry?.value ?? 0);
+
+        if (isErr(applied)) {
+          return applied;
+        }
+
+        // Debits made with an API key count against its spend cap, refunds give the budget back
+        const delta = applied.value.balance - entry.value.balance;
+        const apiKey = apiKeyEntry?.value;
+        const spent = apiKey ? Math.max(0, apiKey.spent - delta) : 0;
+
+        if (apiKey && delta < 0 && apiKey.spendCap !== undefined && spent > apiKey.spendCap) {
+          return err({ kind: 'key_spend_cap_exceeded', cap: apiKey.spendCap, spent: apiKey.spent } as const);
+        }
+
+        const userLimits = resolveSpendLimits(config)(entry.value);
+        const nextCounters = counters.map((counter, index) => {
+          const current = counterEntries[index].value ?? 0;
+          const limit = (counter.scope === 'user' ? userLimits : apiKey?.limits)?.[counter.period];
+          return { counter, current, next: Math.max(0, current - delta), limit };
+        });
+        const exceeded = nextCounters.find(({ next, limit }) => delta < 0 && limit !== undefined && next > limit);
+
+        if (exceeded && exceeded.limit !== undefined) {
+          return err({
+            kind: 'spend_limit_exceeded',
+            scope: exceeded.counter.scope,
+            period: exceeded.counter.period,
+            limit: exceeded.limit,
+            spent: exceeded.current,
+          } as const);
+        }
+
+        // The versionstamp of the user entry this change replaces orders the ledger per user
+        const ledgerEntry: LedgerEntry = {
+          ...change.details,
+          id: entry.versionstamp,
+          userId,
+          kind: change.kind,
+          amount: delta,
+          balanceAfter: applied.value.balance,
+          timestamp: new Date(now).toISOString(),
+        };
+
+        const operation = kv.atomic()
+          .check(entry)
+          .set(key, applied.value)
+          .set([`ledger:${userId}`, ledgerEntry.id], ledgerEntry);
+        const withOnce = once && onceEntry ? operation.check(onceEntry).set(once.key, once.record) : operation;
+        const withTotal = totalEntry ? withOnce.check(totalEntry).set(totalEntry.key, (totalEntry.value ?? 0) + delta) : withOnce;
+        // Users indexed by their external customer id can be found by Polar webhooks
+        const withIndex = applied.value.external_customer_id
+          ? withTotal.set([`external_customer:${applied.value.external_customer_id}`], userId)
+          : withTotal;
+        const withKey = apiKey && apiKeyEntry
+          ? withIndex.check(apiKeyEntry).set(apiKeyEntry.key, { ...apiKey, spent })
+          : withIndex;
+        const commit = await nextCounters.reduce(
+          (atomic, { counter, next }, index) =>
+            atomic.check(counterEntries[index]).set(counter.key, next, { expireIn: counter.expireIn }),
+          withKey
+        ).commit();
+
+        if (!commit.ok) {
+          await contentionBackoff(attempt);
+          return await attemptUpdate(attempt + 1);
+        }
+
+        // Alerts are delivered in the background so a slow endpoint never holds up the request that crossed a threshold
+        notifyBudgetAlerts(config)(
+          crossedThresholds(config.budgetAlerts?.lowBalanceThresholds ?? [], entry.value.balance, applied.value.balance)
+            .map((threshold) => ({
+              kind: 'low_balance',
+              userId,
+              threshold,
+              previousBalance: entry.value.balance,
+              balance: applied.value.balance,
+              timestamp: ledgerEntry.timestamp,
+            }))
+        );
+
+        return applied;
+      } catch (error) {
+        return err({ kind: 'storage_error', error: error as Error } as const);
+      }
+    };
+
+    return await attemptUpdate(0);
+  };
+
+// How long a budget alert webhook may take before its delivery is abandoned
+const BUDGET_ALERT_TIMEOUT_SECONDS = 10;
+
+// Deliver budget alerts to the configured callback and webhook; delivery failures never fail the charge
+const notifyBudgetAlerts = (config: Config) =>
+  async (alerts: readonly BudgetAlert[]): Promise<void> => {
+    const { onAlert, webhookUrl } = config.budgetAlerts ?? {};
+
+    const deliveries = alerts.flatMap((alert) => [
+      ...(onAlert ? [Promise.resolve().then(() => onAlert(alert))] : []),
+      ...(webhookUrl
+        ? [fetch(webhookUrl, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(alert),
+          signal: AbortSignal.timeout(BUDGET_ALERT_TIMEOUT_SECONDS * 1000),
+        }).then((response) => response.body?.cancel())]
+        : []),
+    ]);
+
+    const results = await Promise.allSettled(deliveries);
+    results
+      .filter((result): result is PromiseRejectedResult => result.status === 'rejected')
+      .forEach((result) => console.error('Budget alert delivery failed:', result.reason));
+  };
+
+// Per-minute paid request ceilings of a user and, when used, its API key
+const checkPaidRequestCeilings = (kv: Deno.Kv, config: Config) =>
+  async (user: PolarUser, apiKey?: ApiKey): Promise<Result<RateLimitResult>> => {
+    const ceilings: ReadonlyArray<readonly [string, number | undefined]> = [
+      [`user:${userIdOf(user)}`, resolveSpendLimits(config)(user).requestsPerMinute],
+      ...(apiKey ? [[`key:${apiKey.id}`, apiKey.limits?.requestsPerMinute] as const] : []),
+    ];
+
+    const checkNext = async (index: number, last: Result<RateLimitResult>): Promise<Result<RateLimitResult>> => {
+      if (index >= ceilings.length || isErr(last) || last.value.kind === 'exceeded') {
+        return last;
+      }
+
+      const [owner, limit] = ceilings[index];
+      return limit === undefined
+        ? await checkNext(index + 1, last)
+        : await checkNext(
+          index + 1,
+          await checkFreeRateLimit(kv, config)(owner, { scope: 'paid_per_minute', limit, windowSeconds: 60 })
+        );
+    };
+
+    return await checkNext(0, ok({ kind: 'paid', balance: user.balance } as const));
+  };
+
+// Charge user atomically, refusing to overdraw the balance
+const chargeUser = (kv: Deno.Kv, config: Config) =>
+  (userId: string, amount: number, details: LedgerDetails = { reason: 'charge' }): Promise<Result<PolarUser, ChargeError>> =>
+    updateUserBalance(kv, config)(userId, {
+      kind: 'debit',
+      details,
+      apply: (user) =>
+        user.balance < amount
+          ? err({ kind: 'insufficient_balance', balance: user.balance, required: amount } as const)
+          : ok({ ...user, balance: user.balance - amount }),
+      countsAsSpend: true,
+    });
+
+// Credit user atomically: purchases are credits, free allowances are grants
+const creditUser = (kv: Deno.Kv, config: Config) =>
+  (
+    userId: string,
+    amount: number,
+    details: LedgerDetails = { reason: 'credit' },
+    kind: 'credit' | 'grant' = 'credit'
+  ): Promise<Result<PolarUser, ChargeError>> =>
+    updateUserBalance(kv, config)(userId, {
+      kind,
+      details,
+      apply: (user) => ok({ ...user, balance: user.balance + amount }),
+    });
+
+// Compensate a charge for one request; a request is refunded at most once
+const refundCharge = (kv: Deno.Kv, config: Config) =>
+  (userId: string, amount: number, details: LedgerDetails & { readonly requestId: string }): Promise<Result<PolarUser, ChargeError>> => {
+    const record: RefundRecord = {
+      userId,
+      requestId: details.requestId,
+      amount,
+      reason: details.reason,
+      timestamp: new Date().toISOString(),
+    };
+
+    return updateUserBalance(kv, config)(userId, {
+      kind: 'refund',
+      details,
+      apply: (user) => ok({ ...user, balance: user.balance + amount }),
+      once: { key: [`refund:${details.requestId}`], record },
+      countsAsSpend: true,
+    });
+  };
+
+// Default Standard Webhooks timestamp tolerance
+const DEFAULT_WEBHOOK_TOLERANCE_SECONDS = 300;
+
+// Decode a Standard Webhooks secret: "whsec_<base64>" or, as Polar issues them, the raw secret string
+const decodeWebhookSecret = (secret: string): Uint8Array<ArrayBuffer> =>
+  secret.startsWith('whsec_')
+    ? Uint8Array.from(atob(secret.slice('whsec_'.length)), (char) => char.charCodeAt(0))
+    : new TextEncoder().encode(secret);
+
+// Verify a Standard Webhooks delivery (webhook-id, webhook-timestamp, webhook-signature) and parse its body
+const verifyStandardWebhook = (secret: string | undefined, toleranceSeconds: number, now: number) =>
+  async (headers: Headers, body: string): Promise<Result<unknown, WebhookError>> => {
+    const id = headers.get('webhook-id');
+    const timestamp = headers.get('webhook-timestamp');
+    const signatures = headers.get('webhook-signature');
+
+    if (!secret) {
+      return err({ kind: 'missing_secret' } as const);
+    }
+
+    if (!id || !timestamp || !signatures) {
+      return err({ kind: 'missing_headers' } as const);
+    }
+
+    const timestampSeconds = Number(timestamp);
+    if (!Number.isFinite(timestampSeconds) || Math.abs(now / 1000 - timestampSeconds) > toleranceSeconds) {
+      return err({ kind: 'stale_timestamp' } as const);
+    }
+
+    try {
+      const key = await crypto.subtle.importKey(
+        'raw',
+        decodeWebhookSecret(secret),
+        { name: 'HMAC', hash: 'SHA-256' },
+        false,
+        ['verify']
+      );
+      const signedContent = new TextEncoder().encode(`${id}.${timestamp}.${body}`);
+      const candidates = signatures.split(' ')
+        .map((signature) => signature.split(','))
+        .filter(([version, value]) => version === 'v1' && value)
+        .map(([, value]) => Uint8Array.from(atob(value), (char) => char.charCodeAt(0)));
+
+      const verified = await Promise.all(
+        candidates.map((candidate) => crypto.subtle.verify('HMAC', key, candidate, signedContent))
+      );
+
+      if (!verified.some(Boolean)) {
+        return err({ kind: 'invalid_signature' } as const);
+      }
+    } catch {
+      return err({ kind: 'invalid_signature' } as const);
+    }
+
+    try {
+      return ok(JSON.parse(body));
+    } catch {
+      return err({ kind: 'invalid_payload' } as const);
+    }
+  };
+
+// Find the user id (KV user key suffix) whose PolarUser.external_customer_id matches, via the
+// external_customer:<id> index that saveUser, balance changes and checkout keep up to date
+const resolveUserIdByExternalCustomerId = (kv: Deno.Kv) =>
+  async (externalCustomerId: string): Promise<Result<string | null>> => {
+    try {
+      const indexed = await kv.get<string>([`external_customer:${externalCustomerId}`]);
+      return ok(indexed.value);
+    } catch (error) {
+      return err(error as Error);
+    }
+  };
+
+// Write a user record together with its external_customer:<id> index, dropping the index of a replaced id
+const saveUser = (kv: Deno.Kv) =>
+  async (userId: string, user: PolarUser): Promise<Result<PolarUser>> => {
+    try {
+      const key = [`user:${userId}`];
+      const existing = await kv.get<PolarUser>(key);
+      const previousId = existing.value?.external_customer_id;
+      const operation = kv.atomic().check(existing).set(key, user);
+      const withIndex = user.external_customer_id
+        ? operation.set([`external_customer:${user.external_customer_id}`], userId)
+        : operation;
+      const commit = await (previousId && previousId !== user.external_customer_id
+        ? withIndex.delete([`external_customer:${previousId}`])
+        : withIndex).commit();
+
+      return commit.ok ? ok(user) : err(new Error('The user record changed while it was being saved'));
+    } catch (error) {
+      return err(error as Error);
+    }
+  };
+
+// Default number of ledger entries folded into a balance before a new snapshot is written
+const LEDGER_SNAPSHOT_INTERVAL = 100;
+
+// Derive a user's balance from the ledger: latest snapshot plus every entry recorded after it.
+// Users that predate the ledger open with the balance their first entry was applied to;
+// users without any ledger history yield null.
+const deriveLedgerBalance = (kv: Deno.Kv) =>
+  async (userId: string): Promise<Result<number | null>> => {
+    try {
+      const snapshotKey = [`ledger_snapshot:${userId}`];
+      const snapshot = (await kv.get<LedgerSnapshot>(snapshotKey)).value;
+      const selector = snapshot
+        ? { prefix: [`ledger:${userId}`], start: [`ledger:${userId}`, `${snapshot.throughId}\u0000`] }
+        : { prefix: [`ledger:${userId}`] };
+      const entries = await Array.fromAsync(kv.list<LedgerEntry>(selector), (entry) => entry.value);
+
+      if (entries.length === 0) {
+        return ok(snapshot?.balance ?? null);
+      }
+
+      const opening = snapshot?.balance ?? entries[0].balanceAfter - entries[0].amount;
+      const balance = entries.reduce((sum, entry) => sum + entry.amount, opening);
+
+      if (entries.length >= LEDGER_SNAPSHOT_INTERVAL) {
+        const throughId = entries[entries.length - 1].id;
+        await kv.set(snapshotKey, { balance, throughId, timestamp: new Date().toISOString() });
+      }
+
+      return ok(balance);
+    } catch (error) {
+      return err(error as Error);
+    }
+  };
+
+// List a user's ledger entries, newest first, one page at a time
+const listLedgerEntries = (kv: Deno.Kv) =>
+  async (userId: string, limit: number, cursor?: string): Promise<Result<LedgerPage>> => {
+    try {
+      const iterator = kv.list<LedgerEntry>({ prefix: [`ledger:${userId}`] }, { reverse: true, limit, cursor });
+      const entries = await Array.fromAsync(iterator, (entry) => entry.value);
+
+      return ok({ entries, nextCursor: entries.length === limit && iterator.cursor ? iterator.cursor : undefined });
+    } catch (error) {
+      return err(error as Error);
+    }
+  };
+
+// Get from cache with Result type
+const getFromCache = <T>(kv: Deno.Kv) =>
+  async (cacheKey: string): Promise<Result<CacheResult<T>>> => {
+    try {
+      const result = await kv.get<T>([cacheKey]);
+
+      if (result.value) {
+        return ok({ kind: 'hit', value: result.value } as const);
+      }
+
+      return ok({ kind: 'miss' } as const);
+    } catch (error) {
+      return err(error as Error);
+    }
+  };
+
+// Body bytes per KV value, leaving room under the 64 KiB value limit
+const CACHE_CHUNK_BYTES = 60 * 1024;
+
+// Largest body that is cached at all
+const MAX_CACHED_BODY_BYTES = 8 * 1024 * 1024;
+
+// Set cache with Result type; large bodies are written in chunks before the envelope that points to them
+const setCache = (kv: Deno.Kv) =>
+  async (cacheKey: string, envelope: CacheEnvelope): Promise<Result<void>> => {
+    if (envelope.body.byteLength > MAX_CACHED_BODY_BYTES) {
+      return ok(undefined);
+    }
+
+    try {
+      const retainSeconds = envelope.maxAge + Math.max(envelope.staleWhileRevalidate, envelope.staleIfError);
+      const expireIn = retainSeconds * 1000;
+
+      if (envelope.body.byteLength <= CACHE_CHUNK_BYTES) {
+        await kv.set([cacheKey], envelope, { expireIn });
+        return ok(undefined);
+      }
+
+      const id = crypto.randomUUID();
+      const count = Math.ceil(envelope.body.byteLength / CACHE_CHUNK_BYTES);
+
+      await Promise.all(Array.from({ length: count }, (_, index) =>
+        kv.set(
+          [`cache_chunk:${cacheKey}`, id, index],
+          envelope.body.slice(index * CACHE_CHUNK_BYTES, (index + 1) * CACHE_CHUNK_BYTES),
+          { expireIn }
+        )
+      ));
+
+      await kv.set([cacheKey], { ...envelope, body: new Uint8Array(), bodyChunks: { id, count } }, { expireIn });
+      return ok(undefined);
+    } catch (error) {
+      return err(error as Error);
+    }
+  };
+
+// Reassemble a chunked cache body, or null when a chunk has expired or is missing
+const readCacheChunks = (kv: Deno.Kv) =>
+  async (cacheKey: string, chunks: { readonly id: string; readonly count: number }): Promise<Uint8Array<ArrayBuffer> | null> => {
+    const keys = Array.from({ length: chunks.count }, (_, index) => [`cache_chunk:${cacheKey}`, chunks.id, index]);
+    const batches = await Promise.all(
+      Array.from({ length: Math.ceil(keys.length / 10) }, (_, batch) =>
+        kv.getMany<Uint8Array<ArrayBuffer>[]>(keys.slice(batch * 10, batch * 10 + 10))
+      )
+    );
+    const parts = batches.flat().map((entry) => entry.value);
+
+    if (!parts.every((part): part is Uint8Array<ArrayBuffer> => part !== null)) {
+      return null;
+    }
+
+    const body = new Uint8Array(parts.reduce((size, part) => size + part.byteLength, 0));
+    parts.reduce((offset, part) => {
+      body.set(part, offset);
+      return offset + part.byteLength;
+    }, 0);
+    return body;
+  };
+
+// Find the cached variant for a request, using the request headers its handler last varied on
+const lookupCache = (kv: Deno.Kv, config: Config) =>
+  async (parts: CacheKeyParts): Promise<Result<CacheLookup>> => {
+    if (!CACHEABLE_METHODS.includes(parts.method)) {
+      return ok({ key: createVariantCacheKey(config)(parts, []), entry: null });
+    }
+
+    try {
+      const baseKey = createCacheKey(config)(parts.pathname, parts.searchParams, parts.format);
+      const vary = await kv.get<readonly string[]>([`cache_vary:${baseKey}`]);
+      const key = createVariantCacheKey(config)(parts, vary.value ?? []);
+      const entry = await getFromCache<CacheEnvelope>(kv)(key);
+
+      if (isErr(entry)) {
+        return entry;
+      }
+
+      if (entry.value.kind === 'miss') {
+        return ok({ key, entry: null });
+      }
+
+      const envelope = entry.value.value;
+      const body = envelope.bodyChunks ? await readCacheChunks(kv)(key, envelope.bodyChunks) : envelope.body;
+
+      return ok({ key, entry: body ? { ...envelope, body } : null });
+    } catch (error) {
+      return err(error as Error);
+    }
+  };
+
+// Cache a handler response under its variant key and remember the request headers it varies on;
+// the entry counts as per-caller only when the caller's partition still shapes the final key
+const storeInCache = (kv: Deno.Kv, config: Config) =>
+  async (parts: CacheKeyParts, response: Response, body: Uint8Array<ArrayBuffer>, etag: string, authenticated: boolean, passthrough = false): Promise<Result<void>> => {
+    const varyHeaders = parseVaryHeader(response.headers.get('Vary'));
+    const { partition: _partition, ...sharedParts } = parts;
+    const key = createVariantCacheKey(config)(parts, varyHeaders);
+    const perCaller = key !== createVariantCacheKey(config)(sharedParts, varyHeaders);
+    const maxAge = cacheLifetime(config)(parts.method, response, authenticated, perCaller);
+
+    if (maxAge === null) {
+      return ok(undefined);
+    }
+
+    const baseKey = createCacheKey(config)(parts.pathname, parts.searchParams, parts.format);
+    const windows = staleWindows(config)(response);
+    // Only headers the allow and deny lists let through on a miss are replayed on hits
+    const allowedHeaders = passThroughHeaders(config)(response.headers);
+    const headers = Object.fromEntries(
+      CACHED_RESPONSE_HEADERS.flatMap((name) => {
+        const headerValue = allowedHeaders.get(name);
+        return headerValue === null ? [] : [[name, headerValue] as const];
+      })
+    );
+
+    try {
+      const retainSeconds = maxAge + Math.max(windows.staleWhileRevalidate, windows.staleIfError);
+      await kv.set([`cache_vary:${baseKey}`], varyHeaders, { expireIn: retainSeconds * 1000 });
+    } catch (error) {
+      return err(error as Error);
+    }
+
+    return await setCache(kv)(key, {
+      status: response.status,
+      headers,
+      body,
+      etag,
+      storedAt: Date.now(),
+      maxAge,
+      ...windows,
+      ...(passthrough ? { contentType: response.headers.get('Content-Type') ?? 'application/octet-stream' } : {}),
+    });
+  };
+
+// How long one request may hold the lease to recompute a cache entry
+const DEFAULT_CACHE_LEASE_SECONDS = 10;
+
+// Take the lease to recompute a cache entry, or null when another request holds it. A storage error
+// grants the lease, so an outage degrades to uncoalesced misses instead of stalling them
+const acquireCacheLease = (kv: Deno.Kv, config: Config) =>
+  async (key: string): Promise<string | null> => {
+    const leaseId = crypto.randomUUID();
+    const leaseSeconds = config.cacheRevalidation?.leaseSeconds ?? DEFAULT_CACHE_LEASE_SECONDS;
+
+    try {
+      const result = await kv.atomic()
+        .check({ key: [`cache_lease:${key}`], versionstamp: null })
+        .set([`cache_lease:${key}`], leaseId, { expireIn: leaseSeconds * 1000 })
+        .commit();
+      return result.ok ? leaseId : null;
+    } catch {
+      return leaseId;
+    }
+  };
+
+// Release a lease this request holds; a newer holder's lease is left alone
+const releaseCacheLease = (kv: Deno.Kv) =>
+  async (key: string, leaseId: string): Promise<void> => {
+    try {
+      const lease = await kv.get<string>([`cache_lease:${key}`]);
+      if (lease.value === leaseId) {
+        await kv.atomic().check(lease).delete(lease.key).commit();
+      }
+    } catch (error) {
+      console.error('Cache lease release failed:', error);
+    }
+  };
+
+// Poll while another isolate holds the recompute lease, until it stores a servable entry or the lease lapses
+const waitForCacheFill = (kv: Deno.Kv, config: Config) =>
+  async (key: string, parts: CacheKeyParts, deadline: number, attempt = 0): Promise<CacheEnvelope | null> => {
+    await new Promise((resolve) => setTimeout(resolve, Math.min(250, 25 * 2 ** attempt)));
+
+    const [lookup, lease] = await Promise.all([
+      lookupCache(kv, config)(parts),
+      kv.get<string>([`cache_lease:${key}`]).catch(() => null),
+    ]);
+    const entry = usableEntry(lookup, Date.now());
+
+    return entry !== null || !lease?.value || Date.now() >= deadline
+      ? entry
+      : await waitForCacheFill(kv, config)(key, parts, deadline, attempt + 1);
+  };
+
+// === RESPONSE CREATORS ===
+
+// Replay a cached response with its original status and headers, its age and a default freshness lifetime
+const createCachedResponse = (envelope: CacheEnvelope, format: ResponseFormat, now: number, cacheStatus: 'HIT' | 'STALE' = 'HIT'): Response => {
+  const response = envelope.contentType
+    ? createRawResponse(envelope.body, envelope.contentType, cacheStatus)
+    : createSuccessResponse(new TextDecoder().decode(envelope.body), format, cacheStatus);
+  const headers = new Headers(response.headers);
+  Object.entries({
+    'Cache-Control': `max-age=${envelope.maxAge}`,
+    'Last-Modified': new Date(envelope.storedAt).toUTCString(),
+    ...envelope.headers,
+    'ETag': envelope.etag,
+  }).forEach(([name, value]) => headers.set(name, value));
+  const vary = mergeVary(response.headers.get('Vary'), envelope.headers['vary'] ?? null);
+  if (vary) headers.set('Vary', vary);
+  headers.set('Age', String(Math.max(0, Math.floor((now - envelope.storedAt) / 1000))));
+
+  return new Response([204, 205, 304].includes(envelope.status) ? null : response.body, {
+    status: envelope.status,
+    headers,
+  });
+};
+
+// Pass a non-text body through untouched under the handler's content type
+const createRawResponse = (body: Uint8Array<ArrayBuffer>, contentType: string, cacheStatus: 'HIT' | 'STALE' | 'MISS'): Response =>
+  new Response(body, {
+    headers: {
+      'Content-Type': contentType,
+      'X-Cache': cacheStatus,
+      ...createCorsHeaders(),
+    },
+  });
+
+// Handler text types read as Markdown, and parsed for JSON, alongside the JSON types themselves
+const MARKDOWN_SOURCE_TYPES: readonly string[] = ['', 'text/plain', 'text/markdown'];
+
+// The format a buffered handler body is rendered in: JSON has a view in every format and Markdown or plain
+// text in HTML and Markdown. Any other body is passed through under the handler's own Content-Type
+const renderedFormat = (response: Response, body: Uint8Array<ArrayBuffer>, format: ResponseFormat): ResponseFormat | 'passthrough' => {
+  const type = responseMediaType(response);
+  const isJsonType = type === 'application/json' || type.endsWith('+json');
+  const isMarkdownSource = MARKDOWN_SOURCE_TYPES.includes(type);
+
+  if (!isJsonType && !isMarkdownSource) {
+    return 'passthrough';
+  }
+
+  return parseJsonBody(new TextDecoder().decode(body)) !== undefined || (isMarkdownSource && (format === 'html' || format === 'markdown'))
+    ? format
+    : 'passthrough';
+};
+
+// Render a buffered handler body in the format chosen by renderedFormat, or pass it through as-is
+const renderHandlerBody = (response: Response, body: Uint8Array<ArrayBuffer>, format: ResponseFormat | 'passthrough'): Response =>
+  format === 'passthrough'
+    ? createRawResponse(body, response.headers.get('Content-Type') ?? 'application/octet-stream', 'MISS')
+    : createSuccessResponse(new TextDecoder().decode(body), format, 'MISS');
+
+// Handler headers allowed through by the configured allow and deny lists
+const passThroughHeaders = (config: Config) =>
+  (handlerHeaders: Headers): Headers => {
+    const allow = config.responseHeaders?.allow?.map((name) => name.toLowerCase());
+    const deny = [...DENIED_RESPONSE_HEADERS, ...(config.responseHeaders?.deny ?? []).map((name) => name.toLowerCase())];
+    const headers = new Headers();
+
+    handlerHeaders.forEach((value, name) => {
+      if ((!allow || allow.includes(name)) && !deny.includes(name)) {
+        headers.append(name, value);
+      }
+    });
+    // forEach joins repeated Set-Cookie headers, which must stay separate
+    if (headers.has('set-cookie')) {
+      headers.delete('set-cookie');
+      handlerHeaders.getSetCookie().forEach((cookie) => headers.append('set-cookie', cookie));
+    }
+
+    return headers;
+  };
+
+// Put a rendered body under the handler's status and passed-through headers; the framework's own headers win
+const mergeHandlerResponse = (config: Config) =>
+  (rendered: Response, handler: Response): Response => {
+    const headers = passThroughHeaders(config)(handler.headers);
+    rendered.headers.forEach((value, name) => headers.set(name, value));
+    const vary = mergeVary(handler.headers.get('Vary'), rendered.headers.get('Vary'));
+    if (vary) headers.set('Vary', vary);
+
+    return new Response([101, 204, 205, 304].includes(handler.status) ? null : rendered.body, {
+      status: handler.status,
+      statusText: handler.statusText,
+      headers,
+    });
+  };
+
+// Forward a handler's streamed body with the handler's own status and headers plus the framework's
+const createStreamingResponse = (config: Config) =>
+  (response: Response, body: ReadableStream<Uint8Array>): Response => {
+    const headers = passThroughHeaders(config)(response.headers);
+    Object.entries({ 'X-Cache': 'MISS', ...createCorsHeaders() }).forEach(([name, value]) => headers.set(name, value));
+
+    return new Response(body, { status: response.status, headers });
+  };
+
+// The handler's ETag when it validates the bytes sent: a strong tag on a body that isn't converted to another format
+const reusableEtag = (response: Response, format: ResponseFormat | 'passthrough'): string | null => {
+  const etag = response.headers.get('ETag');
+  return etag && !etag.startsWith('W/') && (format === 'passthrough' || format === 'json') ? etag : null;
+};
+
+// Give a formatted response a strong ETag: the handler's own (see reusableEtag), or a SHA-256 digest of the bytes sent
+const withStrongEtag = async (response: Response, handlerEtag: string | null): Promise<Response> => {
+  const body = new Uint8Array(await response.arrayBuffer());
+  const digest = await crypto.subtle.digest('SHA-256', body);
+  const headers = new Headers(response.headers);
+  headers.set('ETag', handlerEtag ?? `"${Array.from(new Uint8Array(digest).slice(0, 16), (byte) => byte.toString(16).padStart(2, '0')).join('')}"`);
+
+  return new Response(body, { status: response.status, headers });
+};
+
+// Answer a conditional request the client's copy satisfies: validators and caching headers stay, the body goes
+const createNotModifiedResponse = (response: Response): Response => {
+  const headers = new Headers(response.headers);
+  ['Content-Type', 'Content-Length', 'Content-Language'].forEach((name) => headers.delete(name));
+
+  return new Response(null, { status: 304, headers });
+};
+
+// Create payment required response; authenticated users also get a personalized checkout link,
+// agents get machine-readable payment requirements in the body and headers
+const createPaymentRequiredResponse = (env: Record<string, string>) =>
+  (message: string, checkoutUrl?: string, requirements?: PaymentRequirements): Response => {
+    const responseBody = {
+      error: "Payment Required",
+      message,
+      payment_link: env.POLAR_PAYMENT_LINK,
+      ...(checkoutUrl ? { checkout_url: checkoutUrl } : {}),
+      ...(requirements ? { payment_requirements: requirements } : {}),
+      status: 402
+    };
+
+    const requirementHeaders: Record<string, string> = requirements
+      ? {
+        'WWW-Authenticate':
+          `Payment nonce="${requirements.nonce}", price="${requirements.price}", unit="${requirements.unit}", expires="${requirements.expiresAt}"`,
+        [PAYMENT_REQUIRED_HEADER]: encodePaymentHeader(requirements),
+      }
+      : {};
+
+    return new Response(JSON.stringify(responseBody), {
+      status: 402,
+      headers: {
+        'Content-Type': 'application/json',
+        ...requirementHeaders,
+        ...createCorsHeaders(),
+      }
+    });
+  };
+
+// Create generic error response (non-payment failures)
+const createErrorResponse = (status: number, error: string, message: string): Response =>
+  new Response(JSON.stringify({ error, message, status }), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      ...createCorsHeaders(),
+    }
+  });
+
+// Create success response with format handling
+const createSuccessResponse = (responseText: string, format: ResponseFormat, cacheStatus: 'HIT' | 'STALE' | 'MISS', isHtmxRequest = false): Response => {
+  const contentType = match(format)
+    .with('html', () => 'text/html')
+    .with('markdown', () => 'text/markdown')
+    .with('json', () => 'application/json')
+    .with('text', () => 'text/plain')
+    .with('yaml', () => 'application/yaml')
+    .with('csv', () => 'text/csv')
+    .with('ndjson', () => 'application/x-ndjson')
+    .exhaustive();
+
+  // JSON results get a view in every format; other text is treated as Markdown for HTML and passed through otherwise
+  const json = format === 'json' ? undefined : parseJsonBody(responseText);
+  const formattedText = match(format)
+    .with('html', () => json === undefined ? markdownToHtml(responseText) : jsonToHtml(json))
+    .with('markdown', () => json === undefined ? responseText : jsonToMarkdown(json))
+    .with('text', () => json === undefined ? responseText : jsonToText(json))
+    .with('yaml', () => json === undefined ? responseText : jsonToYaml(json))
+    .with('csv', () => json === undefined ? responseText : jsonToCsv(json))
+    .with('ndjson', () => json === undefined ? responseText : jsonToNdjson(json))
+    .with('json', () => responseText)
+    .exhaustive();
+
+  const headers: Record<string, string> = {
+    'Content-Type': contentType,
+    'X-Cache': cacheStatus,
+    'Vary': 'Accept',
+    ...createCorsHeaders(),
+  };
+
+  // Add HTMX-specific headers for partial responses
+  if (isHtmxRequest) {
+    headers['HX-Trigger'] = 'contentUpdated';
+    headers['Vary'] = 'Accept, HX-Request';
+  }
+
+  return new Response(formattedText, {
+    status: 200,
+    headers
+  });
+};
+
+// Create IETF RateLimit headers for a free-tier decision (paid requests carry none)
+const createRateLimitHeaders = (now: number) =>
+  (result: RateLimitResult): Record<string, string> => {
+    const policy = (quota: FreeQuota) => ({
+      'RateLimit-Limit': String(quota.limit),
+      'RateLimit-Policy': `${quota.limit};w=${quota.windowSeconds}`,
+    });
+    const secondsUntil = (time: number) => String(Math.max(0, Math.ceil((time - now) / 1000)));
+
+    return match(result)
+      .with({ kind: 'allowed' }, ({ quota, remaining, resetTime }) => ({
+        ...policy(quota),
+        'RateLimit-Remaining': String(remaining),
+        'RateLimit-Reset': secondsUntil(resetTime),
+      }))
+      .with({ kind: 'exceeded' }, ({ quota, resetTime }) => ({
+        ...policy(quota),
+        'RateLimit-Remaining': '0',
+        'RateLimit-Reset': secondsUntil(resetTime),
+        'Retry-After': secondsUntil(resetTime),
+      }))
+      .with({ kind: 'paid' }, { kind: 'free' }, { kind: 'payment_required' }, () => ({}))
+      .exhaustive();
+  };
+
+// Create credit balance header for known users
+const createCreditHeaders = (user: PolarUser | undefined): Record<string, string> =>
+  user ? { 'X-Credits-Remaining': String(user.balance) } : {};
+
+// Merge extra headers onto a response without touching its body or status
+const withHeaders = (response: Response, headers: Record<string, string>): Response => {
+  const merged = new Headers(response.headers);
+  Object.entries(headers).forEach(([name, value]) => merged.set(name, value));
+
+  return new Response(response.body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: merged,
+  });
+};
+
+// Create paginated transaction history response
+const createTransactionsResponse = (page: LedgerPage, balance: number): Response =>
+  createBillingResponse(200, {
+    balance,
+    transactions: page.entries,
+    next_cursor: page.nextCursor ?? null,
+  });
+
+// Create an uncacheable JSON response for billing endpoints
+const createBillingResponse = (status: number, body: unknown): Response =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store',
+      ...createCorsHeaders(),
+    }
+  });
+
+// Create a 403 for an API key lacking a scope
+const createInsufficientScopeResponse = (scope: string): Response =>
+  withHeaders(
+    createErrorResponse(403, 'Forbidden', `This API key lacks the "${scope}" scope.`),
+    { 'WWW-Authenticate': `Bearer error="insufficient_scope", scope="${scope}"` }
+  );
+
+// Reject a caller whose token could not be used: 401 for unknown or revoked tokens, 503 when lookup failed
+const createAuthFailureResponse = (
+  userState: Extract<UserState, { readonly kind: 'invalid_token' | 'lookup_failed' }>
+): Response =>
+  match(userState)
+    .with({ kind: 'invalid_token' }, () =>
+      withHeaders(
+        createErrorResponse(401, 'Unauthorized', 'The access token is invalid, expired or revoked.'),
+        { 'WWW-Authenticate': 'Bearer error="invalid_token"' }
+      )
+    )
+    .with({ kind: 'lookup_failed' }, () =>
+      withHeaders(
+        createErrorResponse(503, 'Service Unavailable', 'Authentication is temporarily unavailable. Please retry.'),
+        { 'Retry-After': '1' }
+      )
+    )
+    .exhaustive();
+
+// Public view of an API key (never the hash)
+const presentApiKey = ({ hash: _hash, ...apiKey }: ApiKey) => apiKey;
+
+// Create OPTIONS response (for CORS preflight)
+const createOptionsResponse = (): Response =>
+  new Response(null, {
+    status: 200,
+    headers: createCorsHeaders(),
+  });
+
+// === USER STATE DETERMINATION ===
+
+// Resolve the identity used to bucket unauthenticated callers
+const resolveClientId = (config: Config) =>
+  async (request: Request, info?: Deno.ServeHandlerInfo): Promise<string> => {
+    const custom = config.getClientId ? await config.getClientId(request, info) : undefined;
+
+    if (custom) {
+      return custom;
+    }
+
+    const address = resolveClientAddress(config)(request, info);
+    return address ? `ip:${normalizeClientAddress(address)}` : 'anonymous';
+  };
+
+// Determine user state using pattern matching
+const determineUserState = (kv: Deno.Kv, config: Config) =>
+  async (requestData: RequestData, clientId: string): Promise<UserState> => {
+    if (!requestData.authToken) {
+      return { kind: 'anonymous', clientId };
+    }
+
+    // Lenient mode downgrades unusable tokens to anonymous callers, bucketed by `fallbackClientId`
+    const lenient = config.authFailureMode === 'lenient';
+    const invalidToken = (fallbackClientId: string): UserState =>
+      lenient ? { kind: 'anonymous', clientId: fallbackClientId } : { kind: 'invalid_token', clientId };
+    const lookupFailed = (fallbackClientId: string, error: Error): UserState =>
+      lenient ? { kind: 'anonymous', clientId: fallbackClientId } : { kind: 'lookup_failed', clientId, error };
+
+    // API keys resolve by hash to the account they belong to
+    if (requestData.authToken.startsWith(config.apiKeys?.prefix ?? DEFAULT_API_KEY_PREFIX)) {
+      const keyResult = await resolveApiKey(kv)(requestData.authToken);
+      const apiKey = isOk(keyResult) ? keyResult.value : null;
+      const accountResult = apiKey ? await getUserByToken(kv)(apiKey.userId) : ok(null);
+
+      // Unknown keys are bucketed by the caller's address, never by the plaintext key
+      if (isErr(keyResult)) {
+        return lookupFailed(clientId, keyResult.error);
+      }
+
+      if (isErr(accountResult)) {
+        return lookupFailed(clientId, accountResult.error);
+      }
+
+      if (!apiKey || !accountResult.value) {
+        return invalidToken(clientId);
+      }
+
+      const account = { ...accountResult.value, id: apiKey.userId };
+      return account.balance <= 0
+        ? { kind: 'insufficient_balance', user: account, apiKey }
+        : { kind: 'authenticated', user: account, apiKey };
+    }
+
+    if (!config.getUserByToken && config.apiKeys?.allowLegacyTokens === false) {
+      return invalidToken(clientId);
+    }
+
+    // Use custom getUserByToken if provided, otherwise default implementation
+    const userResult = config.getUserByToken 
+      ? await config.getUserByToken(requestData.authToken, kv).then(user => ({ kind: 'ok' as const, value: user })).catch(err => ({ kind: 'err' as const, error: err as Error }))
+      : await getUserByToken(kv)(requestData.authToken);
+
+    if (isErr(userResult)) {
+      return lookupFailed(requestData.authToken, userResult.error);
+    }
+
+    if (!userResult.value) {
+      return invalidToken(requestData.authToken);
+    }
+
+    const user = userResult.value;
+
+    if (user.balance <= 0) {
+      return { kind: 'insufficient_balance', user };
+    }
+
+    return { kind: 'authenticated', user };
+  };
+
+// === API KEYS ===
+
+const DEFAULT_API_KEY_PREFIX = 'ua402_live_';
+
+// How stale lastUsedAt may get before a request refreshes it
+const API_KEY_LAST_USED_RESOLUTION_MS = 60_000;
+
+// Hex SHA-256 of a plaintext key; keys are 256-bit random so no salt is needed
+const hashApiKey = async (key: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Mint a key for a user; the plaintext is returned once and never stored
+const createApiKey = (kv: Deno.Kv, config: Config) =>
+  async (userId: string, options: ApiKeyOptions = {}): Promise<Result<{ readonly key: string; readonly apiKey: ApiKey }, ApiKeyError>> => {
+    try {
+      const secretBytes = crypto.getRandomValues(new Uint8Array(32));
+      const secret = btoa(String.fromCharCode(...secretBytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+      const key = `${config.apiKeys?.prefix ?? DEFAULT_API_KEY_PREFIX}${secret}`;
+      const now = Date.now();
+
+      const apiKey: ApiKey = {
+        id: `key_${crypto.randomUUID()}`,
+        userId,
+        ...(options.name ? { name: options.name } : {}),
+        hint: `${key.slice(0, key.length - secret.length + 6)}…`,
+        hash: await hashApiKey(key),
+        scopes: options.scopes ?? ['*'],
+        ...(options.spendCap !== undefined ? { spendCap: options.spendCap } : {}),
+        ...(options.limits ? { limits: options.limits } : {}),
+        spent: 0,
+        createdAt: new Date(now).toISOString(),
+        ...(options.expiresInSeconds !== undefined
+          ? { expiresAt: new Date(now + options.expiresInSeconds * 1000).toISOString() }
+          : {}),
+      };
+
+      const userEntry = await kv.get<PolarUser>([`user:${userId}`]);
+      if (!userEntry.value) {
+        return err({ kind: 'not_found' } as const);
+      }
+
+      const commit = await kv.atomic()
+        .check({ key: [`api_key_hash:${apiKey.hash}`], versionstamp: null })
+        .set([`api_key:${apiKey.id}`], apiKey)
+        .set([`api_key_hash:${apiKey.hash}`], apiKey.id)
+        .set([`api_keys:${userId}`, apiKey.id], apiKey.id)
+        .commit();
+
+      return commit.ok
+        ? ok({ key, apiKey })
+        : err({ kind: 'storage_error', error: new Error('API key collision') } as const);
+    } catch (error) {
+      return err({ kind: 'storage_error', error: error as Error } as const);
+    }
+  };
+
+// Look up a plaintext key by hash; revoked, expired and unknown keys resolve to null
+const resolveApiKey = (kv: Deno.Kv) =>
+  async (key: string): Promise<Result<ApiKey | null>> => {
+    try {
+      const keyId = await kv.get<string>([`api_key_hash:${await hashApiKey(key)}`]);
+      if (!keyId.value) {
+        return ok(null);
+      }
+
+      const entry = await kv.get<ApiKey>([`api_key:${keyId.value}`]);
+      const apiKey = entry.value;
+      const now = Date.now();
+
+      if (!apiKey || apiKey.revokedAt || (apiKey.expiresAt && Date.parse(apiKey.expiresAt) <= now)) {
+        return ok(null);
+      }
+
+      // Best effort: a concurrent write to the key (e.g. a charge) simply wins
+      if (!apiKey.lastUsedAt || now - Date.parse(apiKey.lastUsedAt) > API_KEY_LAST_USED_RESOLUTION_MS) {
+        const touched = { ...apiKey, lastUsedAt: new Date(now).toISOString() };
+        const commit = await kv.atomic().check(entry).set(entry.key, touched).commit();
+        return ok(commit.ok ? touched : apiKey);
+      }
+
+      return ok(apiKey);
+    } catch (error) {
+      return err(error as Error);
+    }
+  };
+
+// List a user's keys, newest first
+const listApiKeys = (kv: Deno.Kv) =>
+  async (userId: string): Promise<Result<readonly ApiKey[]>> => {
+    try {
+      const ids = await Array.fromAsync(kv.list<string>({ prefix: [`api_keys:${userId}`] }));
+      const entries = await Promise.all(ids.map(({ value }) => kv.get<ApiKey>([`api_key:${value}`])));
+
+      return ok(
+        entries
+          .flatMap((entry) => entry.value ? [entry.value] : [])
+          .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      );
+    } catch (error) {
+      return err(error as Error);
+    }
+  };
+
+// Revoke one of a user's keys, optionally only after a grace period
+const revokeApiKey = (kv: Deno.Kv) =>
+  async (userId: string, keyId: string, graceSeconds = 0, rotatedTo?: string): Promise<Result<ApiKey, ApiKeyError>> => {
+    const attemptRevoke = async (attempt: number): Promise<Result<ApiKey, ApiKeyError>> => {
+      try {
+        const entry = await kv.get<ApiKey>([`api_key:${keyId}`]);
+
+        if (!entry.value || entry.value.userId !== userId) {
+          return err({ kind: 'not_found' } as const);
+        }
+
+        if (entry.value.revokedAt) {
+          return err({ kind: 'revoked' } as const);
+        }
+
+        // A grace period never outlives the key's own expiry
+        const now = Date.now();
+        const graceEnd = Math.min(now + graceSeconds * 1000, entry.value.expiresAt ? Date.parse(entry.value.expiresAt) : Infinity);
+        const revoked: ApiKey = {
+          ...entry.value,
+          ...(graceSeconds > 0
+            ? { expiresAt: new Date(graceEnd).toISOString() }
+            : { revokedAt: new Date(now).toISOString() }),
+          ...(rotatedTo ? { rotatedTo } : {}),
+        };
+        const commit = await kv.atomic().check(entry).set(entry.key, revoked).commit();
+
+        if (commit.ok) {
+          return ok(revoked);
+        }
+
+        return attempt + 1 < DEFAULT_ATOMIC_ATTEMPTS
+          ? await attemptRevoke(attempt + 1)
+          : err({ kind: 'storage_error', error: new Error('Too much contention revoking the API key') } as const);
+      } catch (error) {
+        return err({ kind: 'storage_error', error: error as Error } as const);
+      }
+    };
+
+    return await attemptRevoke(0);
+  };
+
+// Longest time a rotated key keeps working alongside its replacement
+const MAX_ROTATION_GRACE_SECONDS = 24 * 60 * 60;
+
+// Replace a key with a fresh secret carrying the same settings and remaining budget;
+// the old key keeps working for `graceSeconds` (capped). Rotating through an API key can't widen settings
+// beyond its own, nor grant a grace period outlasting it
+const rotateApiKey = (kv: Deno.Kv, config: Config) =>
+  async (userId: string, keyId: string, graceSeconds = 0, caller?: ApiKey): Promise<Result<{ readonly key: string; readonly apiKey: ApiKey }, ApiKeyError>> => {
+    const callerSeconds = caller?.expiresAt ? Math.max(0, (Date.parse(caller.expiresAt) - Date.now()) / 1000) : Infinity;
+    if (graceSeconds > callerSeconds) {
+      return err({ kind: 'grace_too_long', maxSeconds: Math.floor(callerSeconds) } as const);
+    }
+
+    const existing = await kv.get<ApiKey>([`api_key:${keyId}`]).catch(() => null);
+    const current = existing?.value;
+
+    if (!current || current.userId !== userId) {
+      return err({ kind: 'not_found' } as const);
+    }
+
+    if (current.revokedAt) {
+      return err({ kind: 'revoked' } as const);
+    }
+
+    const options: ApiKeyOptions = {
+      ...(current.name ? { name: current.name } : {}),
+      scopes: current.scopes,
+      ...(current.spendCap !== undefined ? { spendCap: Math.max(0, current.spendCap - current.spent) } : {}),
+      ...(current.limits ? { limits: current.limits } : {}),
+      ...(current.expiresAt ? { expiresInSeconds: (Date.parse(current.expiresAt) - Date.now()) / 1000 } : {}),
+    };
+    const bounded = caller ? boundKeyOptions(caller, Date.now())(options) : ok(options);
+    if (isErr(bounded)) {
+      return err({ kind: 'insufficient_scope', scope: bounded.error } as const);
+    }
+
+    const created = await createApiKey(kv, config)(userId, bounded.value);
+
+    if (isErr(created)) {
+      return created;
+    }
+
+    const revoked = await revokeApiKey(kv)(userId, keyId, Math.min(graceSeconds, MAX_ROTATION_GRACE_SECONDS), created.value.apiKey.id);
+    return isErr(revoked) ? revoked : created;
+  };
+
+// === AGENT PAYMENTS ===
+
+// Issue payment requirements; nonces are only stored when a verifier could redeem them
+const issuePaymentRequirements = (kv: Deno.Kv, config: Config) =>
+  async (resource: string, price: number, checkout?: string): Promise<PaymentRequirements> => {
+    const now = Date.now();
+    const requirements = createPaymentRequirements(config)(resource, price, checkout, crypto.randomUUID(), now);
 
-// Create CORS headers (pure function)
-const createCorsHeaders = (): Record<string, string> => ({
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-});
+    if (Object.keys(config.payments?.verifiers ?? {}).length > 0) {
+      await kv.set([`payment_nonce:${requirements.nonce}`], requirements, {
+        expireIn: Date.parse(requirements.expiresAt) - now,
+      }).catch((error) => console.error('Failed to store payment requirements:', error));
+    }
 
-// === EFFECT FUNCTIONS (WITH EXPLICIT ERROR HANDLING) ===
+    return requirements;
+  };
+
+// Verify an X-Payment proof against the nonce it answers, consuming the nonce exactly once
+const verifyPaymentProof = (kv: Deno.Kv, config: Config) =>
+  async (header: string, resource: string): Promise<Result<{ readonly proof: PaymentProof; readonly receipt: PaymentReceipt; readonly requirements: PaymentRequirements }, PaymentError>> => {
+    const parsed = parsePaymentProof(header);
+    if (isErr(parsed)) {
+      return parsed;
+    }
+
+    const proof = parsed.value;
+    const verifier = config.payments?.verifiers?.[proof.scheme];
+    if (!verifier) {
+      return err({ kind: 'unsupported_scheme', scheme: proof.scheme } as const);
+    }
 
-// Get user by token with Result type
-const getUserByToken = (kv: Deno.Kv) =>
-  async (accessToken: string): Promise<Result<PolarUser | null>> => {
     try {
-      const result = await kv.get<PolarUser>([`user:${accessToken}`]);
-      return ok(result.value);
+      const nonceKey = [`payment_nonce:${proof.nonce}`];
+      const entry = await kv.get<PaymentRequirements>(nonceKey);
+      const requirements = entry.value;
+
+      if (!requirements || Date.parse(requirements.expiresAt) < Date.now()) {
+        return err({ kind: 'unknown_nonce' } as const);
+      }
+
+      if (requirements.resource !== resource) {
+        return err({ kind: 'resource_mismatch' } as const);
+      }
+
+      const verified = await verifier(proof, requirements);
+      if (isErr(verified)) {
+        return err({ kind: 'rejected', reason: verified.error } as const);
+      }
+
+      if (verified.value.amount < requirements.price) {
+        return err({ kind: 'insufficient_amount', amount: verified.value.amount, required: requirements.price } as const);
+      }
+
+      // Consume the nonce with the receipt so a proof can never pay twice
+      const commit = await kv.atomic()
+        .check(entry)
+        .delete(nonceKey)
+        .set([`payment_receipt:${proof.nonce}`], {
+          ...verified.value,
+          scheme: proof.scheme,
+          resource,
+          timestamp: new Date().toISOString(),
+        })
+        .commit();
+
+      return commit.ok
+        ? ok({ proof, receipt: verified.value, requirements })
+        : err({ kind: 'unknown_nonce' } as const);
     } catch (error) {
-      return err(error as Error);
+      return err({ kind: 'storage_error', error: error as Error } as const);
     }
   };
 
-// Get rate limit data with Result type
-const getRateLimitData = (kv: Deno.Kv, config: Config) =>
-  async (userId: string): Promise<Result<RateLimitData>> => {
+// Give back a proof whose request failed, like a credit refund: the nonce is restored so the same proof
+// can pay for a retry, and the receipt is marked released (refundable should the nonce expire first)
+const releasePaymentProof = (kv: Deno.Kv) =>
+  async (nonce: string, requirements: PaymentRequirements, reason: string): Promise<Result<void>> => {
     try {
-      const key = `ratelimit:${userId}`;
-      const result = await kv.get<RateLimitData>([key]);
-
-      const currentTime = Date.now();
-      const resetTime = currentTime + (config.freeRateLimitResetSeconds * 1000);
+      const receiptKey = [`payment_receipt:${nonce}`];
+      const receipt = await kv.get<Record<string, unknown>>(receiptKey);
 
-      if (!result.value || currentTime > result.value.resetTime) {
-        return ok({ count: 0, resetTime });
+      if (!receipt.value) {
+        return ok(undefined);
       }
 
-      return ok(result.value);
+      const expireIn = Date.parse(requirements.expiresAt) - Date.now();
+      const released = kv.atomic()
+        .check(receipt)
+        .set(receiptKey, { ...receipt.value, releasedAt: new Date().toISOString(), releaseReason: reason });
+      const commit = await (expireIn > 0
+        ? released.set([`payment_nonce:${nonce}`], requirements, { expireIn })
+        : released).commit();
+
+      return commit.ok ? ok(undefined) : err(new Error('The payment receipt changed while it was being released'));
     } catch (error) {
       return err(error as Error);
     }
   };
 
-// Update rate limit with Result type
-const updateRateLimit = (kv: Deno.Kv) =>
-  async (userId: string, rateLimitData: RateLimitData): Promise<Result<void>> => {
+// === CHECKOUT ===
+
+// Default lifetime of a checkout link reused across 402 responses (Polar sessions last an hour)
+const DEFAULT_CHECKOUT_SESSION_TTL_SECONDS = 30 * 60;
+
+// Polar client from POLAR_ACCESS_TOKEN (POLAR_SERVER=production, otherwise sandbox)
+const createPolarCheckoutClient = (env: Record<string, string>): CheckoutClient | null =>
+  env.POLAR_ACCESS_TOKEN
+    ? new Polar({
+      accessToken: env.POLAR_ACCESS_TOKEN,
+      server: env.POLAR_SERVER === 'production' ? 'production' : 'sandbox',
+    })
+    : null;
+
+// Create a Polar checkout for a credit pack; the webhook credits `externalCustomerId` once paid
+const createCheckoutSession = (config: Config, env: Record<string, string>) =>
+  async (request: {
+    readonly externalCustomerId: string;
+    readonly credits?: number;
+    readonly customerEmail?: string;
+  }): Promise<Result<CheckoutSession, CheckoutError>> => {
+    const checkout = config.checkout;
+    const client = checkout?.client ?? createPolarCheckoutClient(env);
+
+    if (!checkout || checkout.creditPacks.length === 0 || !client) {
+      return err({ kind: 'not_configured' } as const);
+    }
+
+    const credits = request.credits ?? checkout.defaultCredits ?? checkout.creditPacks[0].credits;
+    const pack = checkout.creditPacks.find((candidate) => candidate.credits === credits);
+
+    if (!pack) {
+      return err({
+        kind: 'unknown_pack',
+        credits,
+        available: checkout.creditPacks.map((candidate) => candidate.credits),
+      } as const);
+    }
+
     try {
-      const key = `ratelimit:${userId}`;
-      await kv.set([key], rateLimitData);
-      return ok(undefined);
+      const session = await client.checkouts.create({
+        products: [pack.productId],
+        externalCustomerId: request.externalCustomerId,
+        metadata: { credits: pack.credits },
+        ...(request.customerEmail ? { customerEmail: request.customerEmail } : {}),
+        ...(checkout.successUrl ? { successUrl: checkout.successUrl } : {}),
+      });
+      return ok({ id: session.id, url: session.url, credits: pack.credits });
     } catch (error) {
-      return err(error as Error);
+      return err({ kind: 'provider_error', error: error as Error } as const);
     }
   };
 
-// Check rate limit using ADTs and pattern matching
-const checkRateLimit = (kv: Deno.Kv, config: Config) =>
-  async (userState: UserState): Promise<Result<RateLimitResult>> => {
-    return await match(userState)
-      .with({ kind: 'authenticated' }, async ({ user }: { user: PolarUser }) => {
-        if (user.balance > 0) {
-          return ok({ kind: 'allowed', remaining: user.balance } as const);
-        }
-        return await checkFreeRateLimit(kv, config)(user.access_token);
-      })
-      .with({ kind: 'anonymous' }, async ({ clientId }: { clientId: string }) =>
-        await checkFreeRateLimit(kv, config)(clientId)
-      )
-      .with({ kind: 'insufficient_balance' }, async ({ user }: { user: PolarUser }) =>
-        await checkFreeRateLimit(kv, config)(user.access_token)
-      )
-      .exhaustive();
+// Read the user's external_customer_id, assigning and indexing a new one on first checkout
+const ensureExternalCustomerId = (kv: Deno.Kv) =>
+  async (userId: string, attempt = 0): Promise<Result<string | null>> => {
+    try {
+      const userKey = [`user:${userId}`];
+      const entry = await kv.get<PolarUser>(userKey);
+
+      if (!entry.value) {
+        return ok(null);
+      }
+
+      if (entry.value.external_customer_id) {
+        return ok(entry.value.external_customer_id);
+      }
+
+      const externalCustomerId = `cust_${crypto.randomUUID()}`;
+      const commit = await kv.atomic()
+        .check(entry)
+        .set(userKey, { ...entry.value, external_customer_id: externalCustomerId })
+        .set([`external_customer:${externalCustomerId}`], userId)
+        .commit();
+
+      if (commit.ok) {
+        return ok(externalCustomerId);
+      }
+
+      return attempt + 1 < DEFAULT_ATOMIC_ATTEMPTS
+        ? await ensureExternalCustomerId(kv)(userId, attempt + 1)
+        : err(new Error('Too much contention assigning an external customer id'));
+    } catch (error) {
+      return err(error as Error);
+    }
   };
 
-// Helper for free rate limit checking
-const checkFreeRateLimit = (kv: Deno.Kv, config: Config) =>
-  async (clientId: string): Promise<Result<RateLimitResult>> => {
-    const rateLimitResult = await getRateLimitData(kv, config)(clientId);
+// Personalized checkout link for a 402 response, reused for a while so retries don't mint sessions
+const getCheckoutUrl = (kv: Deno.Kv, config: Config, env: Record<string, string>) =>
+  async (user: PolarUser): Promise<string | undefined> => {
+    if (!config.checkout) {
+      return undefined;
+    }
 
-    if (isErr(rateLimitResult)) {
-      return rateLimitResult;
+    const externalCustomerId = await ensureExternalCustomerId(kv)(userIdOf(user));
+    if (isErr(externalCustomerId) || !externalCustomerId.value) {
+      return undefined;
     }
 
-    const rateLimitData = rateLimitResult.value;
+    const credits = config.checkout.defaultCredits ?? config.checkout.creditPacks[0]?.credits;
+    const sessionKey = [`checkout:${externalCustomerId.value}:${credits}`];
+    const cached = await kv.get<string>(sessionKey).catch(() => null);
 
-    if (rateLimitData.count >= config.freeRatelimit) {
-      return ok({ kind: 'exceeded', resetTime: rateLimitData.resetTime } as const);
+    if (cached?.value) {
+      return cached.value;
     }
 
-    // Update count immutably
-    const updatedData = { ...rateLimitData, count: rateLimitData.count + 1 };
-    const updateResult = await updateRateLimit(kv)(clientId, updatedData);
+    const session = await createCheckoutSession(config, env)({
+      externalCustomerId: externalCustomerId.value,
+      credits,
+      ...(user.email ? { customerEmail: user.email } : {}),
+    });
 
-    if (isErr(updateResult)) {
-      return updateResult;
+    if (isErr(session)) {
+      console.error('Checkout session creation failed:', session.error);
+      return undefined;
     }
 
-    return ok({ kind: 'allowed', remaining: config.freeRatelimit - updatedData.count } as const);
+    const ttlSeconds = config.checkout.sessionTtlSeconds ?? DEFAULT_CHECKOUT_SESSION_TTL_SECONDS;
+    await kv.set(sessionKey, session.value.url, { expireIn: ttlSeconds * 1000 }).catch(() => undefined);
+    return session.value.url;
   };
 
-// Charge user with Result type
-const chargeUser = (kv: Deno.Kv) =>
-  async (userId: string, amount: number): Promise<Result<PolarUser>> => {
-    const userResult = await getUserByToken(kv)(userId);
+// === BILLING ENDPOINTS ===
 
-    if (isErr(userResult)) {
-      return userResult;
+// Fields of a JSON object request body; other bodies (missing, malformed, null, arrays, scalars) have none
+const readJsonObject = async (request: Request): Promise<Readonly<Record<string, unknown>>> => {
+  const body: unknown = await request.json().catch(() => null);
+  return typeof body === 'object' && body !== null && !Array.isArray(body) ? body as Record<string, unknown> : {};
+};
+
+// The signed-in account behind a billing request, or the response refusing it
+const requireAccount = (
+  userState: UserState,
+  scope: string,
+  purpose: string
+): Result<{ readonly user: PolarUser; readonly apiKey?: ApiKey }, Response> =>
+  match(userState)
+    .with({ kind: 'anonymous' }, () =>
+      err(createErrorResponse(401, 'Unauthorized', `A valid Bearer token is required to ${purpose}.`))
+    )
+    .with({ kind: 'invalid_token' }, { kind: 'lookup_failed' }, (failure) => err(createAuthFailureResponse(failure)))
+    .with({ kind: 'authenticated' }, { kind: 'insufficient_balance' }, ({ user, apiKey }) =>
+      hasScope(apiKey, scope) ? ok({ user, apiKey }) : err(createInsufficientScopeResponse(scope))
+    )
+    .exhaustive();
+
+// Path of the authenticated user's transaction history
+const BILLING_TRANSACTIONS_PATH = '/__billing/transactions';
+
+// Serve the caller's ledger: ?limit=1..200 (default 50), ?cursor=<next_cursor>
+const handleTransactionsRequest = (kv: Deno.Kv) =>
+  async (requestData: RequestData, userState: UserState): Promise<Response> => {
+    const account = requireAccount(userState, 'billing:read', 'view transactions');
+    if (isErr(account)) {
+      return account.error;
     }
 
-    if (!userResult.value) {
-      return err(new Error('User not found'));
+    const requestedLimit = Number(requestData.searchParams.get('limit') ?? 50);
+    const limit = Number.isInteger(requestedLimit) ? Math.min(200, Math.max(1, requestedLimit)) : 50;
+    const cursor = requestData.searchParams.get('cursor') ?? undefined;
+    const userId = userIdOf(account.value.user);
+
+    const [pageResult, balanceResult] = await Promise.all([
+      listLedgerEntries(kv)(userId, limit, cursor),
+      deriveLedgerBalance(kv)(userId),
+    ]);
+
+    if (isErr(pageResult) || isErr(balanceResult)) {
+      return createErrorResponse(503, 'Service Unavailable', 'Transaction history is temporarily unavailable.');
     }
 
-    const user = userResult.value;
+    // Users without ledger history yet report the balance on their user record
+    return createTransactionsResponse(pageResult.value, balanceResult.value ?? account.value.user.balance);
+  };
 
-    if (user.balance < amount) {
-      return err(new Error('Insufficient balance'));
+const BILLING_CHECKOUT_PATH = '/__billing/checkout';
+
+// Start a checkout for the caller: body { "credits": <pack> }, defaulting to the configured pack
+const handleCheckoutRequest = (kv: Deno.Kv, config: Config, env: Record<string, string>) =>
+  async (request: Request, userState: UserState): Promise<Response> => {
+    const account = requireAccount(userState, 'billing:write', 'buy credits');
+    if (isErr(account)) {
+      return account.error;
     }
 
-    // Update user balance immutably
-    const updatedUser = { ...user, balance: user.balance - amount };
+    const body = await readJsonObject(request);
+    const credits = body.credits === undefined ? undefined : Number(body.credits);
+    const externalCustomerId = await ensureExternalCustomerId(kv)(userIdOf(account.value.user));
 
-    try {
-      await kv.set([`user:${userId}`], updatedUser);
-      return ok(updatedUser);
-    } catch (error) {
-      return err(error as Error);
+    if (isErr(externalCustomerId)) {
+      return createErrorResponse(503, 'Service Unavailable', 'Billing storage is temporarily unavailable.');
     }
+
+    if (!externalCustomerId.value) {
+      return createErrorResponse(404, 'Not Found', 'No billing account exists for this user.');
+    }
+
+    const session = await createCheckoutSession(config, env)({
+      externalCustomerId: externalCustomerId.value,
+      ...(credits !== undefined ? { credits } : {}),
+      ...(account.value.user.email ? { customerEmail: account.value.user.email } : {}),
+    });
+
+    if (isErr(session)) {
+      return match(session.error)
+        .with({ kind: 'not_configured' }, () =>
+          createErrorResponse(501, 'Not Implemented', 'Checkout is not configured on this server.')
+        )
+        .with({ kind: 'unknown_pack' }, ({ available }) =>
+          createErrorResponse(400, 'Bad Request', `Credits must be one of: ${available.join(', ')}.`)
+        )
+        .with({ kind: 'provider_error' }, () =>
+          createErrorResponse(502, 'Bad Gateway', 'The payment provider could not create a checkout.')
+        )
+        .exhaustive();
+    }
+
+    return createBillingResponse(201, {
+      id: session.value.id,
+      checkout_url: session.value.url,
+      credits: session.value.credits,
+    });
   };
 
-// Get from cache with Result type
-const getFromCache = <T>(kv: Deno.Kv) =>
-  async (cacheKey: string): Promise<Result<CacheResult<T>>> => {
-    try {
-      const result = await kv.get<T>([cacheKey]);
+const API_KEYS_PATH = '/__billing/keys';
+const API_KEY_PATTERN = new URLPattern({ pathname: `${API_KEYS_PATH}/:id/:action?` });
 
-      if (result.value) {
-        return ok({ kind: 'hit', value: result.value } as const);
+// Manage the caller's API keys: GET/POST /keys, DELETE /keys/:id, POST /keys/:id/rotate
+const handleApiKeysRequest = (kv: Deno.Kv, config: Config) =>
+  async (request: Request, requestData: RequestData, userState: UserState): Promise<Response> => {
+    const account = requireAccount(userState, 'keys:manage', 'manage API keys');
+    if (isErr(account)) {
+      return account.error;
+    }
+
+    const userId = userIdOf(account.value.user);
+    const callerKey = account.value.apiKey;
+    const target = API_KEY_PATTERN.exec({ pathname: requestData.pathname })?.pathname.groups;
+    const body = request.method === 'POST' ? await readJsonObject(request) : {};
+    const graceSeconds = Number(body.graceSeconds ?? 0);
+
+    const keyErrorResponse = (error: ApiKeyError): Response =>
+      match(error)
+        .with({ kind: 'not_found' }, () => createErrorResponse(404, 'Not Found', 'No such API key.'))
+        .with({ kind: 'revoked' }, () => createErrorResponse(409, 'Conflict', 'This API key is already revoked.'))
+        .with({ kind: 'insufficient_scope' }, ({ scope }) => createInsufficientScopeResponse(scope))
+        .with({ kind: 'grace_too_long' }, ({ maxSeconds }) =>
+          createErrorResponse(400, 'Bad Request', `graceSeconds may not exceed this API key's remaining lifetime of ${maxSeconds} seconds.`)
+        )
+        .with({ kind: 'storage_error' }, () =>
+          createErrorResponse(503, 'Service Unavailable', 'Billing storage is temporarily unavailable.')
+        )
+        .exhaustive();
+
+    if (!target) {
+      if (request.method === 'GET') {
+        const keys = await listApiKeys(kv)(userId);
+        return isOk(keys)
+          ? createBillingResponse(200, { keys: keys.value.map(presentApiKey) })
+          : keyErrorResponse({ kind: 'storage_error', error: keys.error });
       }
 
-      return ok({ kind: 'miss' } as const);
-    } catch (error) {
-      return err(error as Error);
+      if (request.method === 'POST') {
+        const scopes = Array.isArray(body.scopes) && body.scopes.every((scope) => typeof scope === 'string')
+          ? body.scopes as string[]
+          : undefined;
+        const limits = parseSpendLimits(body.limits);
+        const options: ApiKeyOptions = {
+          ...(typeof body.name === 'string' ? { name: body.name } : {}),
+          ...(scopes ? { scopes } : {}),
+          ...(typeof body.spendCap === 'number' && body.spendCap >= 0 ? { spendCap: body.spendCap } : {}),
+          ...(typeof body.expiresInSeconds === 'number' && body.expiresInSeconds > 0
+            ? { expiresInSeconds: body.expiresInSeconds }
+            : {}),
+          ...(limits ? { limits } : {}),
+        };
+        const bounded = callerKey ? boundKeyOptions(callerKey, Date.now())(options) : ok(options);
+        if (isErr(bounded)) {
+          return keyErrorResponse({ kind: 'insufficient_scope', scope: bounded.error });
+        }
+
+        const created = await createApiKey(kv, config)(userId, bounded.value);
+        return isOk(created)
+          ? createBillingResponse(201, { key: created.value.key, ...presentApiKey(created.value.apiKey) })
+          : keyErrorResponse(created.error);
+      }
     }
-  };
 
-// Set cache with Result type
-const setCache = (kv: Deno.Kv, config: Config) =>
-  async (cacheKey: string, value: string): Promise<Result<void>> => {
-    if (!config.cacheSeconds || config.cacheSeconds <= 0) {
-      return ok(undefined);
+    if (target?.id && !target.action && request.method === 'DELETE') {
+      const revoked = await revokeApiKey(kv)(userId, target.id);
+      return isOk(revoked) ? createBillingResponse(200, presentApiKey(revoked.value)) : keyErrorResponse(revoked.error);
     }
 
-    try {
-      await kv.set([cacheKey], value, { expireIn: config.cacheSeconds * 1000 });
-      return ok(undefined);
-    } catch (error) {
-      return err(error as Error);
+    if (target?.id && target.action === 'rotate' && request.method === 'POST') {
+      const rotated = await rotateApiKey(kv, config)(userId, target.id, Number.isFinite(graceSeconds) ? graceSeconds : 0, callerKey);
+      return isOk(rotated)
+        ? createBillingResponse(201, { key: rotated.value.key, ...presentApiKey(rotated.value.apiKey) })
+        : keyErrorResponse(rotated.error);
     }
+
+    return createErrorResponse(405, 'Method Not Allowed', `${request.method} is not supported on ${requestData.pathname}.`);
   };
 
-// === RESPONSE CREATORS ===
+// Path receiving Polar webhooks (Standard Webhooks signed with POLAR_WEBHOOK_SECRET)
+const POLAR_WEBHOOK_PATH = '/__billing/webhooks/polar';
 
-// Create payment required response using pattern matching
-const createPaymentRequiredResponse = (env: Record<string, string>) =>
-  (message: string): Response => {
-    const responseBody = {
-      error: "Payment Required",
-      message,
-      payment_link: env.POLAR_PAYMENT_LINK,
-      status: 402
-    };
+// Verify, deduplicate and apply a Polar webhook delivery to the ledger
+const handlePolarWebhook = (kv: Deno.Kv, config: Config, env: Record<string, string>) =>
+  async (request: Request): Promise<Response> => {
+    const body = await request.text();
+    const tolerance = config.polarWebhook?.toleranceSeconds ?? DEFAULT_WEBHOOK_TOLERANCE_SECONDS;
+    const verification = await verifyStandardWebhook(env.POLAR_WEBHOOK_SECRET, tolerance, Date.now())(request.headers, body);
+
+    if (isErr(verification)) {
+      return match(verification.error)
+        .with({ kind: 'missing_secret' }, () =>
+          createErrorResponse(500, 'Internal Server Error', 'POLAR_WEBHOOK_SECRET is not configured.')
+        )
+        .with({ kind: 'missing_headers' }, { kind: 'invalid_payload' }, ({ kind }) =>
+          createErrorResponse(400, 'Bad Request', `Invalid webhook delivery: ${kind}.`)
+        )
+        .with({ kind: 'stale_timestamp' }, { kind: 'invalid_signature' }, ({ kind }) =>
+          createErrorResponse(401, 'Unauthorized', `Webhook verification failed: ${kind}.`)
+        )
+        .exhaustive();
+    }
 
-    return new Response(JSON.stringify(responseBody), {
-      status: 402,
-      headers: {
-        'Content-Type': 'application/json',
-        ...createCorsHeaders(),
-      }
-    });
-  };
+    const event = verification.value as PolarWebhookEvent;
+    if (typeof event?.type !== 'string' || typeof event.data !== 'object' || event.data === null) {
+      return createErrorResponse(400, 'Bad Request', 'Invalid webhook delivery: invalid_payload.');
+    }
 
-// Create success response with format handling
-const createSuccessResponse = (responseText: string, format: ResponseFormat, cacheStatus: 'HIT' | 'MISS', isHtmxRequest = false): Response => {
-  const contentType = match(format)
-    .with('html', () => 'text/html')
-    .with('markdown', () => 'text/markdown')
-    .with('json', () => 'application/json')
-    .exhaustive();
+    const webhookId = request.headers.get('webhook-id') ?? '';
+    const dedupeKey = [`webhook:${webhookId}`];
+    const record = { type: event.type, receivedAt: new Date().toISOString() };
+    const action = mapPolarEvent(config)(event);
+    const acknowledge = (duplicate: boolean) =>
+      new Response(JSON.stringify({ received: true, duplicate }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+
+    if (action.kind === 'ignore') {
+      const commit = await kv.atomic().check({ key: dedupeKey, versionstamp: null }).set(dedupeKey, record).commit();
+      return acknowledge(!commit.ok);
+    }
 
-  const formattedText = match(format)
-    .with('html', () => markdownToHtml(responseText))
-    .otherwise(() => responseText);
+    const userIdResult = config.polarWebhook?.resolveUserId
+      ? await config.polarWebhook.resolveUserId(action.externalCustomerId, kv)
+        .then((userId) => ok(userId))
+        .catch((error) => err(error as Error))
+      : await resolveUserIdByExternalCustomerId(kv)(action.externalCustomerId);
 
-  const headers: Record<string, string> = {
-    'Content-Type': contentType,
-    'X-Cache': cacheStatus,
-    ...createCorsHeaders(),
+    if (isErr(userIdResult)) {
+      return createErrorResponse(503, 'Service Unavailable', 'Customer lookup failed.');
+    }
+
+    if (!userIdResult.value) {
+      // Not acknowledged, so Polar retries once the customer exists
+      return createErrorResponse(404, 'Not Found', `No user with external_customer_id ${action.externalCustomerId}.`);
+    }
+
+    // A refund only claws back what earlier refunds of the same order haven't (never giving credits back)
+    const { orderId } = action;
+    const applied = await updateUserBalance(kv, config)(userIdResult.value, {
+      kind: action.ledgerKind,
+      details: { reason: action.reason, requestId: webhookId },
+      apply: (user, earlierClawbacks) =>
+        ok({ ...user, balance: user.balance + (orderId ? Math.min(0, action.amount - earlierClawbacks) : action.amount) }),
+      once: { key: dedupeKey, record },
+      ...(orderId ? { runningTotal: [`order_refund:${orderId}`] } : {}),
+    });
+
+    if (isErr(applied)) {
+      return match(applied.error)
+        .with({ kind: 'already_applied' }, () => acknowledge(true))
+        .with({ kind: 'user_not_found' }, () =>
+          createErrorResponse(404, 'Not Found', `No user with external_customer_id ${action.externalCustomerId}.`)
+        )
+        .otherwise(() => createErrorResponse(503, 'Service Unavailable', 'Failed to apply webhook to the ledger.'));
+    }
+
+    return acknowledge(false);
   };
 
-  // Add HTMX-specific headers for partial responses
-  if (isHtmxRequest) {
-    headers['HX-Trigger'] = 'contentUpdated';
-    headers['Vary'] = 'HX-Request';
-  }
+// === MAIN REQUEST HANDLER (FUNCTIONAL COMPOSITION) ===
 
-  return new Response(formattedText, {
-    status: 200,
-    headers
-  });
-};
+const handleRequest = (config: Config, kv: Deno.Kv, env: Record<string, string>) => {
+  const routes = compileRoutes(config.pricing);
 
-// Create OPTIONS response (for CORS preflight)
-const createOptionsResponse = (): Response =>
-  new Response(null, {
-    status: 200,
-    headers: createCorsHeaders(),
-  });
+  // Cache entries being computed in this isolate, by cache key; identical misses wait for them
+  const cacheFills = new Map<string, Promise<void>>();
 
-// === USER STATE DETERMINATION ===
+  // Let one request per cache key compute a missing entry: identical misses wait for it in this isolate,
+  // or for the lease holder in another, then use what it stored. Null means this request computes it.
+  const awaitCacheFill = async (key: string, parts: CacheKeyParts, cleanups: Array<() => Promise<void>>): Promise<CacheEnvelope | null> => {
+    const pending = cacheFills.get(key);
 
-// Determine user state using pattern matching
-const determineUserState = (kv: Deno.Kv, config: Config) =>
-  async (requestData: RequestData): Promise<UserState> => {
-    if (!requestData.authToken) {
-      const clientId = 'anonymous'; // In real implementation, use IP or similar
-      return { kind: 'anonymous', clientId };
+    if (pending) {
+      await pending;
+      return usableEntry(await lookupCache(kv, config)(parts), Date.now());
     }
 
-    // Use custom getUserByToken if provided, otherwise default implementation
-    const userResult = config.getUserByToken 
-      ? await config.getUserByToken(requestData.authToken, kv).then(user => ({ kind: 'ok' as const, value: user })).catch(err => ({ kind: 'err' as const, error: err as Error }))
-      : await getUserByToken(kv)(requestData.authToken);
+    const fill = Promise.withResolvers<void>();
+    cacheFills.set(key, fill.promise);
+    cleanups.push(() => {
+      cacheFills.delete(key);
+      fill.resolve();
+      return Promise.resolve();
+    });
 
-    if (isErr(userResult) || !userResult.value) {
-      const clientId = requestData.authToken;
-      return { kind: 'anonymous', clientId };
+    const leaseId = await acquireCacheLease(kv, config)(key);
+
+    if (leaseId !== null) {
+      cleanups.push(() => releaseCacheLease(kv)(key, leaseId));
+      return null;
     }
 
-    const user = userResult.value;
+    const leaseSeconds = config.cacheRevalidation?.leaseSeconds ?? DEFAULT_CACHE_LEASE_SECONDS;
+    return await waitForCacheFill(kv, config)(key, parts, Date.now() + leaseSeconds * 1000);
+  };
 
-    if (user.balance <= 0) {
-      return { kind: 'insufficient_balance', user };
+  // Refresh a stale entry in the background under the recompute lease; nobody is billed for the refresh
+  const revalidateInBackground = (key: string, parts: CacheKeyParts, request: Request, context: Context, authenticated: boolean): void => {
+    if (cacheFills.has(key)) {
+      return;
     }
 
-    return { kind: 'authenticated', user };
-  };
+    const refresh = (async () => {
+      const leaseId = await acquireCacheLease(kv, config)(key);
 
-// === MAIN REQUEST HANDLER (FUNCTIONAL COMPOSITION) ===
+      if (leaseId === null) {
+        return;
+      }
 
-const handleRequest = (config: Config, kv: Deno.Kv, env: Record<string, string>) =>
-  async (request: Request): Promise<Response> => {
+      try {
+        const response = await config.fetch(request, context);
+        const responseBody = new Uint8Array(await response.arrayBuffer());
+        const format = renderedFormat(response, responseBody, parts.format);
+        const fresh = response.ok
+          ? await withStrongEtag(renderHandlerBody(response, responseBody, format), reusableEtag(response, format))
+          : null;
+
+        await releaseCacheLease(kv)(key, leaseId);
+        if (fresh) {
+          const etag = fresh.headers.get('ETag') ?? '';
+          await storeInCache(kv, config)(parts, response, responseBody, etag, authenticated, format === 'passthrough');
+        }
+      } catch (error) {
+        console.error('Cache revalidation error:', error);
+        await releaseCacheLease(kv)(key, leaseId);
+      }
+    })();
+
+    cacheFills.set(key, refresh.finally(() => cacheFills.delete(key)));
+  };
+
+  const serve = async (request: Request, info: Deno.ServeHandlerInfo | undefined, cleanups: Array<() => Promise<void>>): Promise<Response> => {
     // Handle OPTIONS request for CORS
     if (request.method === 'OPTIONS') {
       return createOptionsResponse();
     }
 
     const requestData = parseRequestData(request);
-    const responseFormat = getResponseFormat(requestData);
-    const cacheKey = createCacheKey(config)(requestData.pathname, requestData.searchParams, responseFormat);
 
-    // Check cache first
-    const cacheResult = await getFromCache<string>(kv)(cacheKey);
+    // Framework billing endpoints bypass caching, pricing and rate limits
+    if (requestData.pathname === POLAR_WEBHOOK_PATH && request.method === 'POST') {
+      return await handlePolarWebhook(kv, config, env)(request);
+    }
+
+    if (requestData.pathname === BILLING_TRANSACTIONS_PATH && request.method === 'GET') {
+      const clientId = await resolveClientId(config)(request, info);
+      const userState = await determineUserState(kv, config)(requestData, clientId);
+      return await handleTransactionsRequest(kv)(requestData, userState);
+    }
+
+    if (requestData.pathname === API_KEYS_PATH || requestData.pathname.startsWith(`${API_KEYS_PATH}/`)) {
+      const clientId = await resolveClientId(config)(request, info);
+      const userState = await determineUserState(kv, config)(requestData, clientId);
+      return await handleApiKeysRequest(kv, config)(request, requestData, userState);
+    }
+
+    if (requestData.pathname === BILLING_CHECKOUT_PATH && request.method === 'POST') {
+      const clientId = await resolveClientId(config)(request, info);
+      const userState = await determineUserState(kv, config)(requestData, clientId);
+      return await handleCheckoutRequest(kv, config, env)(request, userState);
+    }
+
+    // Clients that accept none of the formats can still receive bodies passed through unconverted (binary,
+    // streamed, or text no view applies to); only bodies that would be rendered get a 406
+    const negotiatedFormat = getResponseFormat(requestData);
+    const responseFormat = negotiatedFormat ?? 'json';
+    const isUnacceptable = (entry: CacheEnvelope) => negotiatedFormat === null && entry.contentType === undefined;
+    const notAcceptable = () =>
+      withHeaders(
+        createErrorResponse(406, 'Not Acceptable', `Available formats: ${FORMAT_MEDIA_TYPES.map(([, [mediaType]]) => mediaType).join(', ')}`),
+        { 'Vary': 'Accept' },
+      );
+    const sharedCacheParts: CacheKeyParts = {
+      method: request.method,
+      pathname: requestData.pathname,
+      searchParams: requestData.searchParams,
+      format: responseFormat,
+      headers: request.headers,
+    };
+
+    // Resolve route pricing
+    const matchedRoute = resolveRoutePolicy(routes, config)(request.method, requestData.url);
+    const cacheBilling = resolveCacheBilling(matchedRoute);
+
+    // Free shared cache hits are served to anyone without resolving the caller
+    const sharedLookup = cacheBilling.kind === 'free' && !config.cacheKey?.varyOnUser
+      ? await lookupCache(kv, config)(sharedCacheParts)
+      : null;
+    const sharedEntry = sharedLookup ? usableEntry(sharedLookup, Date.now()) : null;
+
+    if (sharedEntry && isUnacceptable(sharedEntry)) {
+      return notAcceptable();
+    }
+
+    if (sharedLookup && isOk(sharedLookup) && sharedEntry) {
+      const stale = cacheFreshness(sharedEntry, Date.now()) !== 'fresh';
+      if (stale) {
+        revalidateInBackground(sharedLookup.value.key, sharedCacheParts, request, { kv, env }, requestData.authToken !== undefined);
+      }
 
-    if (isOk(cacheResult) && cacheResult.value.kind === 'hit') {
-      return createSuccessResponse(cacheResult.value.value, responseFormat, 'HIT');
+      const cached = createCachedResponse(sharedEntry, responseFormat, Date.now(), stale ? 'STALE' : 'HIT');
+      return isNotModified(request, cached) ? createNotModifiedResponse(cached) : cached;
     }
 
     // Determine user state
-    const userState = await determineUserState(kv, config)(requestData);
+    const clientId = await resolveClientId(config)(request, info);
+    const userState = await determineUserState(kv, config)(requestData, clientId);
+
+    if (userState.kind === 'invalid_token' || userState.kind === 'lookup_failed') {
+      return createAuthFailureResponse(userState);
+    }
 
-    // Check rate limits
-    const rateLimitResult = await checkRateLimit(kv, config)(userState);
+    const knownUser = userState.kind === 'anonymous' ? undefined : userState.user;
+    const apiKey = userState.kind === 'anonymous' ? undefined : userState.apiKey;
 
-    if (isErr(rateLimitResult)) {
-      return createPaymentRequiredResponse(env)('Rate limit check failed');
+    if (!hasScope(apiKey, matchedRoute.scope)) {
+      return createInsufficientScopeResponse(matchedRoute.scope ?? '');
     }
 
-    // Handle rate limit result using pattern matching
-    const rateLimitResponse = match(rateLimitResult.value)
-      .with({ kind: 'exceeded' }, ({ resetTime: _resetTime }: { resetTime: number }) => {
-        const message = `Free rate limit exceeded. Limit: ${config.freeRatelimit} requests per ${config.freeRateLimitResetSeconds} seconds.`;
-        return createPaymentRequiredResponse(env)(message);
-      })
-      .with({ kind: 'allowed' }, () => null)
-      .exhaustive();
+    // Other cache hits are looked up once the caller is known; private entries belong to one caller,
+    // varyOnUser entries to one account (anonymous callers share theirs)
+    const partition = match(cacheBilling)
+      .with({ kind: 'private' }, () => knownUser ? `user:${userIdOf(knownUser)}` : clientId)
+      .otherwise(() => config.cacheKey?.varyOnUser ? (knownUser ? `user:${userIdOf(knownUser)}` : 'anonymous') : undefined);
+    const cacheParts: CacheKeyParts = { ...sharedCacheParts, ...(partition ? { partition } : {}) };
+    const lookup = sharedLookup ?? await lookupCache(kv, config)(cacheParts);
+    const lookedUp = isOk(lookup) ? lookup.value : null;
+    const freshness = lookedUp?.entry ? cacheFreshness(lookedUp.entry, Date.now()) : 'expired';
+
+    // Serve fresh or revalidating entries; otherwise wait for an identical miss already being computed.
+    // Only misses likely to be stored coalesce: anonymous or per-caller ones, or keys that held an entry before
+    // (signed-in callers sharing a key are only cached when the handler marks the response public)
+    const coalesces = STORED_METHODS.includes(request.method) && (config.cacheSeconds ?? 0) > 0 &&
+      (knownUser === undefined || partition !== undefined || lookedUp?.entry != null);
+    const cachedEntry = lookedUp?.entry && (freshness === 'fresh' || freshness === 'stale_while_revalidate')
+      ? lookedUp.entry
+      : lookedUp && coalesces
+      ? await awaitCacheFill(lookedUp.key, cacheParts, cleanups)
+      : null;
+    if (cachedEntry && isUnacceptable(cachedEntry)) {
+      return notAcceptable();
+    }
+
+    const cacheStatus = cachedEntry && cacheFreshness(cachedEntry, Date.now()) !== 'fresh' ? 'STALE' : 'HIT';
+    const staleEntry = freshness === 'stale_if_error' && lookedUp?.entry && !isUnacceptable(lookedUp.entry) ? lookedUp.entry : null;
+    const routePolicy = cachedEntry === null ? matchedRoute : cacheHitPolicy(matchedRoute, cachedEntry.status);
+    const billsNotModified = config.notModifiedBilling === 'billed';
 
-    if (rateLimitResponse) {
-      return rateLimitResponse;
+    // Revalidating a cached copy the client already holds is free unless 304s are billed
+    if (cachedEntry !== null && !billsNotModified) {
+      const cached = createCachedResponse(cachedEntry, responseFormat, Date.now(), cacheStatus);
+      if (isNotModified(request, cached)) {
+        return createNotModifiedResponse(cached);
+      }
     }
 
-    // Handle charging for authenticated users using pattern matching
-    let chargeResult: Result<PolarUser | null>;
+    const resource = `${request.method} ${requestData.url.href}`;
+    const holdAmount = routePolicy.metered?.maxPrice ?? routePolicy.price;
+
+    // 402 with payment requirements, plus a personalized checkout link when the caller is known
+    const paymentRequired = async (message: string): Promise<Response> => {
+      const checkoutUrl = knownUser ? await getCheckoutUrl(kv, config, env)(knownUser) : undefined;
+      const checkout = checkoutUrl ??
+        (config.checkout ? `${requestData.url.origin}${BILLING_CHECKOUT_PATH}` : env.POLAR_PAYMENT_LINK);
+      const requirements = await issuePaymentRequirements(kv, config)(resource, holdAmount, checkout);
+      return createPaymentRequiredResponse(env)(message, checkoutUrl, requirements);
+    };
+
+    // A verified X-Payment proof pays for this request in place of the free tier or credits
+    const paymentProof = request.headers.get(PAYMENT_HEADER);
+    const paymentResult = paymentProof ? await verifyPaymentProof(kv, config)(paymentProof, resource) : null;
+
+    if (paymentResult && isErr(paymentResult)) {
+      const reason = match(paymentResult.error)
+        .with({ kind: 'insufficient_amount' }, ({ amount, required }) =>
+          `Payment of ${amount} credits does not cover the price of ${required}.`
+        )
+        .with({ kind: 'rejected' }, ({ reason }) => `Payment rejected: ${reason}.`)
+        .with({ kind: 'unsupported_scheme' }, ({ scheme }) => `Unsupported payment scheme: ${scheme}.`)
+        .with({ kind: 'malformed_proof' }, { kind: 'unknown_nonce' }, { kind: 'resource_mismatch' }, { kind: 'storage_error' },
+          ({ kind }) => `Payment proof not accepted: ${kind}.`
+        )
+        .exhaustive();
+      return await paymentRequired(reason);
+    }
 
-    if (userState.kind === 'authenticated') {
-      const user = userState.user;
-      if (user.balance > 0) {
-        chargeResult = await chargeUser(kv)(user.access_token, config.priceCredit);
-      } else {
-        chargeResult = ok(user);
+    const payment = paymentResult?.value ?? null;
+    const paymentHeaders: Record<string, string> = payment
+      ? {
+        [PAYMENT_RESPONSE_HEADER]: encodePaymentHeader({
+          scheme: payment.proof.scheme,
+          nonce: payment.proof.nonce,
+          ...payment.receipt,
+        }),
       }
-    } else {
-      chargeResult = ok(null);
+      : {};
+
+    // Decide how to bill the request unless it is already paid for
+    const billingResult: Result<BillingDecision> = payment
+      ? ok({ kind: 'free' } as const)
+      : await checkBilling(kv, config)(userState, routePolicy);
+
+    // A limiter outage is the server's fault, not the caller's: ask them to retry rather than pay
+    if (isErr(billingResult)) {
+      return withHeaders(
+        createErrorResponse(503, 'Service Unavailable', 'The rate limit check is temporarily unavailable. Please retry.'),
+        { 'Retry-After': '1' }
+      );
+    }
+
+    const decision = billingResult.value;
+    const rateLimitHeaders = decision.kind !== 'charge' && decision.rateLimit
+      ? createRateLimitHeaders(Date.now())(decision.rateLimit)
+      : {};
+
+    if (decision.kind === 'deny') {
+      const message = match(decision)
+        .with({ reason: 'free_quota_exhausted', rateLimit: { kind: 'exceeded' } }, ({ rateLimit: { quota } }) =>
+          `Free rate limit exceeded. Limit: ${quota.limit} requests per ${quota.windowSeconds} seconds.`
+        )
+        .with({ reason: 'insufficient_balance' }, () => 'Insufficient balance. Please add funds to your account.')
+        .otherwise(() => `This endpoint costs ${routePolicy.price} credits per request and has no free tier.`);
+
+      return withHeaders(await paymentRequired(message), {
+        ...rateLimitHeaders,
+        ...createCreditHeaders(knownUser),
+      });
+    }
+
+    const isPaid = decision.kind === 'charge' && knownUser !== undefined;
+
+    // Paid requests are throttled by the user's and key's per-minute ceilings
+    const ceilingResult = isPaid ? await checkPaidRequestCeilings(kv, config)(knownUser, apiKey) : null;
+
+    if (ceilingResult && isErr(ceilingResult)) {
+      return createErrorResponse(503, 'Service Unavailable', 'Billing storage is temporarily unavailable.');
+    }
+
+    if (ceilingResult?.value.kind === 'exceeded') {
+      const { quota } = ceilingResult.value;
+      return withHeaders(
+        createErrorResponse(429, 'Too Many Requests', `Paid request ceiling reached: ${quota.limit} requests per minute.`),
+        { ...createRateLimitHeaders(Date.now())(ceilingResult.value), ...createCreditHeaders(knownUser) }
+      );
     }
 
+    // Charge authenticated users for paid routes (metered routes place a hold of their max price)
+    const requestId = crypto.randomUUID();
+    const chargeResult: Result<PolarUser | null, ChargeError> = isPaid
+      ? await chargeUser(kv, config)(userIdOf(knownUser), holdAmount, {
+        reason: cachedEntry !== null ? 'cache_hit' : routePolicy.metered ? 'metered_hold' : 'request',
+        path: requestData.pathname,
+        requestId,
+        ...(apiKey ? { apiKeyId: apiKey.id } : {}),
+      })
+      : ok(knownUser ?? null);
+
     if (isErr(chargeResult)) {
-      return createPaymentRequiredResponse(env)('Insufficient balance. Please add funds to your account.');
+      return await match(chargeResult.error)
+        .with({ kind: 'insufficient_balance' }, async ({ balance }) =>
+          withHeaders(
+            await paymentRequired('Insufficient balance. Please add funds to your account.'),
+            { 'X-Credits-Remaining': String(balance) }
+          )
+        )
+        .with({ kind: 'user_not_found' }, () =>
+          paymentRequired('Insufficient balance. Please add funds to your account.')
+        )
+        .with({ kind: 'contention' }, () =>
+          withHeaders(
+            createErrorResponse(503, 'Service Unavailable', 'Too many concurrent charges for this account. Please retry.'),
+            { 'Retry-After': '1' }
+          )
+        )
+        .with({ kind: 'key_spend_cap_exceeded' }, ({ cap }) =>
+          createErrorResponse(402, 'Payment Required', `This API key has reached its spending cap of ${cap} credits.`)
+        )
+        .with({ kind: 'spend_limit_exceeded' }, ({ scope, period, limit }) =>
+          withHeaders(
+            createErrorResponse(402, 'Spend Limit Exceeded', `The ${period} spend limit of ${limit} credits for this ${scope === 'key' ? 'API key' : 'account'} is reached.`),
+            { 'Retry-After': String(secondsUntilPeriodEnd(period, Date.now())) }
+          )
+        )
+        .with({ kind: 'storage_error' }, { kind: 'already_applied' }, () =>
+          createErrorResponse(503, 'Service Unavailable', 'Billing storage is temporarily unavailable.')
+        )
+        .exhaustive();
+    }
+
+    // Stored user records don't carry their own id, so keep the one the caller resolved to
+    const chargedUser = chargeResult.value && knownUser ? { ...chargeResult.value, id: userIdOf(knownUser) } : undefined;
+
+    // Settle the charge: failures refund everything, metered routes return what was held beyond usage
+    const settleCharge = async (outcome: SettlementOutcome): Promise<PolarUser | undefined> => {
+      // Payment proofs are given back on failure just as charges are refunded
+      if (payment && outcome.kind === 'failed') {
+        const released = await releasePaymentProof(kv)(payment.proof.nonce, payment.requirements, outcome.reason);
+        if (isErr(released)) {
+          console.error('Payment release error:', released.error);
+        }
+      }
+
+      if (!isPaid || !chargedUser) {
+        return chargedUser;
+      }
+
+      const [refundAmount, reason] = match(outcome)
+        .with({ kind: 'failed' }, ({ reason }) => [holdAmount, reason] as const)
+        .with({ kind: 'completed' }, ({ events }) => routePolicy.metered
+          ? [holdAmount - settleMeteredAmount(routePolicy.metered, routePolicy.price)(events), 'metered_settlement'] as const
+          : [0, 'none'] as const
+        )
+        .exhaustive();
+
+      if (refundAmount <= 0) {
+        return chargedUser;
+      }
+
+      const refundResult = await refundCharge(kv, config)(userIdOf(chargedUser), refundAmount, {
+        reason,
+        path: requestData.pathname,
+        requestId,
+        ...(apiKey ? { apiKeyId: apiKey.id } : {}),
+      });
+      return isOk(refundResult) ? refundResult.value : chargedUser;
+    };
+
+    if (cachedEntry !== null) {
+      const settledUser = await settleCharge({ kind: 'completed', events: [] });
+
+      // Only callers cleared to receive the stale entry start a refresh, so refused requests never reach the handler
+      if (lookedUp && freshness === 'stale_while_revalidate') {
+        revalidateInBackground(lookedUp.key, cacheParts, request, { user: settledUser, clientId, kv, env }, knownUser !== undefined);
+      }
+      const cached = withHeaders(createCachedResponse(cachedEntry, responseFormat, Date.now(), cacheStatus), {
+        ...rateLimitHeaders,
+        ...createCreditHeaders(settledUser),
+        ...paymentHeaders,
+      });
+
+      return isNotModified(request, cached) ? createNotModifiedResponse(cached) : cached;
     }
 
-    // Execute the user's handler
+    // Execute the user's handler, collecting metered usage
+    const meterEvents: MeterEvent[] = [];
     const context: Context = {
-      user: chargeResult.value || undefined,
+      user: chargedUser,
+      clientId,
+      meter: (units: number, reason?: string) => {
+        meterEvents.push({ units, reason });
+      },
       kv,
       env
     };
 
     try {
       const response = await config.fetch(request, context);
-      const responseText = await response.text();
+
+      // Streamed bodies are forwarded as they arrive instead of being buffered
+      if (response.ok && response.body && (routePolicy.stream !== undefined || isEventStream(response))) {
+        const metered = routePolicy.metered;
+        const meter = routePolicy.stream?.meter;
+
+        // Metered streams settle on what was forwarded once the stream is done
+        if (metered && meter) {
+          const body = meterStream(response.body, streamUnitCounter(meter), metered.maxPrice / (metered.unitPrice ?? 1), async (units) => {
+            await settleCharge({ kind: 'completed', events: [...meterEvents, { units, reason: 'stream' }] });
+          });
+
+          return withHeaders(createStreamingResponse(config)(response, body), {
+            ...rateLimitHeaders,
+            ...createCreditHeaders(chargedUser),
+            ...paymentHeaders,
+          });
+        }
+
+        // Everything else is billed at stream start, and cached by tee-ing the stream when the route asks for it.
+        // Event streams are open-ended, so they are never teed, and a body too large to cache stops being buffered
+        const settledUser = await settleCharge({
+          kind: 'completed',
+          events: [...meterEvents, ...getHeaderMeterEvents(response)],
+        });
+        const [body, cacheBody] = routePolicy.stream?.cache && !isEventStream(response) ? response.body.tee() : [response.body, null];
+
+        if (cacheBody) {
+          bufferStream(cacheBody, MAX_CACHED_BODY_BYTES)
+            .then(async (bytes) => {
+              if (bytes === null) {
+                return;
+              }
+              const etag = (await withStrongEtag(new Response(bytes), reusableEtag(response, 'passthrough'))).headers.get('ETag') ?? '';
+              await storeInCache(kv, config)(cacheParts, response, bytes, etag, knownUser !== undefined, true);
+            })
+            .catch((error) => console.error('Stream cache error:', error));
+        }
+
+        return withHeaders(createStreamingResponse(config)(response, body), {
+          ...rateLimitHeaders,
+          ...createCreditHeaders(settledUser),
+          ...paymentHeaders,
+        });
+      }
+
+      const responseBody = new Uint8Array(await response.arrayBuffer());
+      const failedReason = `handler_status_${response.status}`;
+
+      // Within its stale-if-error window, the last good response stands in for a server error
+      if (response.status >= 500 && staleEntry) {
+        const refundedUser = await settleCharge({ kind: 'failed', reason: failedReason });
+        return withHeaders(createCachedResponse(staleEntry, responseFormat, Date.now(), 'STALE'), {
+          ...rateLimitHeaders,
+          ...createCreditHeaders(refundedUser),
+          ...paymentHeaders,
+        });
+      }
+
+      const format = renderedFormat(response, responseBody, responseFormat);
+
+      if (negotiatedFormat === null && format !== 'passthrough') {
+        const refundedUser = await settleCharge({ kind: 'failed', reason: 'not_acceptable' });
+        return withHeaders(notAcceptable(), { ...rateLimitHeaders, ...createCreditHeaders(refundedUser), ...paymentHeaders });
+      }
+
+      const fresh = mergeHandlerResponse(config)(
+        await withStrongEtag(renderHandlerBody(response, responseBody, format), reusableEtag(response, format)),
+        response
+      );
+      const etag = fresh.headers.get('ETag') ?? '';
+
+      // Statuses the route doesn't bill are refunded, and so is a miss the client already holds unless 304s are billed
+      const notModified = isNotModified(request, fresh);
+      const settledUser = !isBillableStatus(routePolicy, response.status)
+        ? await settleCharge({ kind: 'failed', reason: failedReason })
+        : notModified && !billsNotModified
+        ? await settleCharge({ kind: 'failed', reason: 'not_modified' })
+        : await settleCharge({ kind: 'completed', events: [...meterEvents, ...getHeaderMeterEvents(response)] });
 
       // Cache the response
-      await setCache(kv, config)(cacheKey, responseText);
+      await storeInCache(kv, config)(cacheParts, response, responseBody, etag, knownUser !== undefined, format === 'passthrough');
 
-      return createSuccessResponse(responseText, responseFormat, 'MISS');
+      const result = withHeaders(fresh, {
+        ...rateLimitHeaders,
+        ...createCreditHeaders(settledUser),
+        ...paymentHeaders,
+      });
+
+      return notModified ? createNotModifiedResponse(result) : result;
     } catch (error) {
-      return createPaymentRequiredResponse(env)(`Handler error: ${error}`);
+      console.error('Handler error:', error);
+      const refundedUser = await settleCharge({ kind: 'failed', reason: 'handler_error' });
+
+      // Within its stale-if-error window, the last good response stands in for the failure
+      return withHeaders(
+        staleEntry
+          ? createCachedResponse(staleEntry, responseFormat, Date.now(), 'STALE')
+          : createErrorResponse(500, 'Internal Server Error', 'The request handler failed. Any credits charged have been refunded.'),
+        { ...rateLimitHeaders, ...createCreditHeaders(refundedUser), ...paymentHeaders }
+      );
+    }
+  };
+
+  return async (request: Request, info?: Deno.ServeHandlerInfo): Promise<Response> => {
+    const cleanups: Array<() => Promise<void>> = [];
+
+    try {
+      return await serve(request, info, cleanups);
+    } finally {
+      await Promise.all(cleanups.map((cleanup) => cleanup()));
     }
   };
+};
 
 // === MAIN CONFIGURATION AND STARTUP ===
 
@@ -492,5 +3905,52 @@ if (import.meta.main) {
 }
 
 // Export for use as a library
-export { initializeServer, defaultConfig, handleRequest };
-export type { Config, Context, PolarUser, Result };
\ No newline at end of file
+export {
+  initializeServer,
+  defaultConfig,
+  handleRequest,
+  saveUser,
+  chargeUser,
+  creditUser,
+  refundCharge,
+  deriveLedgerBalance,
+  listLedgerEntries,
+  createCheckoutSession,
+  createApiKey,
+  resolveApiKey,
+  listApiKeys,
+  revokeApiKey,
+  rotateApiKey,
+  secondsUntilPeriodEnd,
+  createPaymentRequirements,
+  parsePaymentProof,
+  verifyPaymentProof,
+  mapPolarEvent,
+  verifyStandardWebhook,
+  checkFreeRateLimit,
+  decideBilling,
+  freeQuotaSubject,
+  parseCacheControl,
+  cacheLifetime,
+  isTextResponse,
+  bufferStream,
+  isNotModified,
+  getResponseFormat,
+  jsonToHtml,
+  jsonToMarkdown,
+  jsonToText,
+  jsonToYaml,
+  jsonToCsv,
+  jsonToNdjson,
+  fixedWindowStep,
+  slidingWindowLogStep,
+  slidingWindowCounterStep,
+  tokenBucketStep,
+  normalizeClientAddress,
+  resolveClientId,
+  createRateLimitHeaders,
+  compileRoutes,
+  resolveRoutePolicy,
+  settleMeteredAmount,
+};
+export type { Config, Context, PolarUser, Result, ChargeError, RateLimitResult, RateLimitStrategy, TrustedProxyConfig, RoutePricing, RoutePolicy, MeteredPricing, MeterEvent, RefundRecord, LedgerEntry, LedgerKind, LedgerDetails, PolarWebhookConfig, PolarWebhookEvent, CheckoutClient, CheckoutConfig, CheckoutSession, CheckoutError, CreditPack, PaymentConfig, PaymentError, PaymentProof, PaymentReceipt, PaymentRequirements, PaymentVerifier, ApiKey, ApiKeyConfig, ApiKeyError, ApiKeyOptions, SpendLimits, BudgetAlert, BudgetAlertConfig, BillingPolicy, BillingDecision, DenyReason, CacheBilling, CacheKeyConfig, CacheKeyParts, CacheEnvelope, CacheDirectives, CacheRevalidationConfig, StreamPricing, StatusPattern, ResponseHeaderConfig };
\ No newline at end of file
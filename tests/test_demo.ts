@@ -164,14 +164,13 @@ class DemoTester {
     console.log('\n🆓 Testing anonymous image generation...');
     for (let i = 1; i <= 3; i++) {
       try {
-        const response = await fetch(`${BASE_URL}/api/generate-image`, {
+        const response = await fetch(`${BASE_URL}/api/generate-image/256x256`, {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json'
           },
           body: JSON.stringify({
             prompt: `Test image ${i}`,
-            size: '256x256',
             quality: 'standard'
           })
         });
@@ -201,7 +200,7 @@ class DemoTester {
     // Test POST endpoint with auth
     console.log('\n🔑 Testing authenticated image generation...');
     try {
-      const response = await fetch(`${BASE_URL}/api/generate-image`, {
+      const response = await fetch(`${BASE_URL}/api/generate-image/512x512`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -209,7 +208,6 @@ class DemoTester {
         },
         body: JSON.stringify({
           prompt: 'Test authenticated image',
-          size: '512x512',
           quality: 'standard'
         })
       });
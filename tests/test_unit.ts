@@ -1,8 +1,47 @@
 #!/usr/bin/env deno test --allow-net --allow-read --allow-write --allow-env --unstable-kv
 
 import { assertEquals, assert } from "@std/assert";
+import { match } from "ts-pattern";
 import {
+  cacheLifetime,
+  chargeUser,
+  checkFreeRateLimit,
+  compileRoutes,
+  createApiKey,
+  createCheckoutSession,
+  creditUser,
+  deriveLedgerBalance,
+  saveUser,
+  refundCharge,
+  createRateLimitHeaders,
+  decideBilling,
   defaultConfig,
+  fixedWindowStep,
+  freeQuotaSubject,
+  getResponseFormat,
+  handleRequest,
+  isNotModified,
+  isTextResponse,
+  bufferStream,
+  jsonToHtml,
+  jsonToMarkdown,
+  jsonToNdjson,
+  jsonToText,
+  jsonToYaml,
+  jsonToCsv,
+  mapPolarEvent,
+  normalizeClientAddress,
+  parseCacheControl,
+  resolveClientId,
+  resolveRoutePolicy,
+  settleMeteredAmount,
+  slidingWindowCounterStep,
+  slidingWindowLogStep,
+  tokenBucketStep,
+  verifyPaymentProof,
+  type ApiKey,
+  type BudgetAlert,
+  type CheckoutClient,
   type Config,
   type PolarUser,
   type Result
@@ -310,6 +349,1779 @@ Deno.test("rate limiting - expired reset time", async () => {
   assertEquals(result.value.count, 0); // Should reset to 0
 });
 
+const quota = (limit: number) => ({ scope: 'global', limit, windowSeconds: 1 });
+
+Deno.test("fixedWindowStep - counts within window and resets after it", () => {
+  const step = fixedWindowStep(quota(2), 10_000);
+
+  const first = step(null);
+  assertEquals(first.result, { kind: 'allowed', quota: quota(2), remaining: 1, resetTime: 11_000 });
+  assertEquals(step(first.next).result, { kind: 'allowed', quota: quota(2), remaining: 0, resetTime: 11_000 });
+  assertEquals(step({ count: 2, resetTime: 11_000 }).result, { kind: 'exceeded', quota: quota(2), resetTime: 11_000 });
+  assertEquals(step({ count: 2, resetTime: 9_000 }).result, { kind: 'allowed', quota: quota(2), remaining: 1, resetTime: 11_000 });
+});
+
+Deno.test("slidingWindowLogStep - no boundary burst and exact reset time", () => {
+  const state = { timestamps: [9_500, 9_900] };
+
+  // A fixed window rolling over at 10_000 would allow two more requests here
+  assertEquals(slidingWindowLogStep(quota(2), 10_100)(state).result, { kind: 'exceeded', quota: quota(2), resetTime: 10_500 });
+  assertEquals(slidingWindowLogStep(quota(2), 10_600)(state).result, { kind: 'allowed', quota: quota(2), remaining: 0, resetTime: 10_900 });
+});
+
+Deno.test("slidingWindowCounterStep - weights previous window", () => {
+  const previous = { windowStart: 9_000, count: 10, previousCount: 0 };
+
+  // 25% into the new window, 75% of the previous 10 requests still count
+  const exceeded = slidingWindowCounterStep(quota(10), 10_250)({ windowStart: 10_000, count: 3, previousCount: 10 });
+  assert(exceeded.result.kind === 'exceeded');
+  assertEquals(exceeded.result.resetTime, 10_300);
+
+  const allowed = slidingWindowCounterStep(quota(10), 10_500)(previous);
+  assertEquals(allowed.result, { kind: 'allowed', quota: quota(10), remaining: 4, resetTime: 11_000 });
+  assertEquals(allowed.next, { windowStart: 10_000, count: 1, previousCount: 10 });
+});
+
+Deno.test("tokenBucketStep - refills over the window", () => {
+  const empty = { tokens: 0, updatedAt: 10_000 };
+
+  assertEquals(tokenBucketStep(quota(10), 10_050)(empty).result, { kind: 'exceeded', quota: quota(10), resetTime: 10_100 });
+  assertEquals(tokenBucketStep(quota(10), 10_500)(empty).result, { kind: 'allowed', quota: quota(10), remaining: 4, resetTime: 10_600 });
+  assertEquals(tokenBucketStep(quota(10), 10_000)(null).result, { kind: 'allowed', quota: quota(10), remaining: 9, resetTime: 10_100 });
+});
+
+Deno.test("rate limit steps - a zero quota is exceeded until the window ends", async () => {
+  assertEquals(fixedWindowStep(quota(0), 10_250)(null).result, { kind: 'exceeded', quota: quota(0), resetTime: 11_250 });
+  assertEquals(slidingWindowLogStep(quota(0), 10_250)(null).result, { kind: 'exceeded', quota: quota(0), resetTime: 11_250 });
+  assertEquals(slidingWindowCounterStep(quota(0), 10_250)(null).result, { kind: 'exceeded', quota: quota(0), resetTime: 11_000 });
+  assertEquals(tokenBucketStep(quota(0), 10_250)(null).result, { kind: 'exceeded', quota: quota(0), resetTime: 11_250 });
+
+  const kv = await Deno.openKv(":memory:");
+  const response = await handleRequest({ ...defaultConfig, freeRatelimit: 0 }, kv, {})(new Request("https://example.com/api"));
+  await response.body?.cancel();
+  assertEquals(response.status, 402);
+  assert(/^\d+$/.test(response.headers.get('Retry-After') ?? ''));
+  assert(/^\d+$/.test(response.headers.get('RateLimit-Reset') ?? ''));
+  kv.close();
+});
+
+Deno.test("checkFreeRateLimit - concurrent requests are counted exactly", async () => {
+  const strategies = ['fixed_window', 'sliding_window_log', 'sliding_window_counter', 'token_bucket'] as const;
+
+  for (const kind of strategies) {
+    const kv = await Deno.openKv(":memory:");
+    const config: Config = { ...defaultConfig, freeRatelimit: 5, rateLimitStrategy: { kind } };
+
+    const results = await Promise.all(
+      Array.from({ length: 8 }, () => checkFreeRateLimit(kv, config)("client"))
+    );
+
+    assert(results.every(r => r.kind === 'ok'), `contention error for ${kind}`);
+    assertEquals(results.filter(r => r.kind === 'ok' && r.value.kind === 'allowed').length, 5, kind);
+    kv.close();
+  }
+});
+
+Deno.test("createRateLimitHeaders - allowed, exceeded and paid", () => {
+  const headers = createRateLimitHeaders(10_000);
+  const hourly = { scope: 'global', limit: 10, windowSeconds: 3600 };
+
+  assertEquals(headers({ kind: 'allowed', quota: hourly, remaining: 7, resetTime: 70_000 }), {
+    'RateLimit-Limit': '10',
+    'RateLimit-Policy': '10;w=3600',
+    'RateLimit-Remaining': '7',
+    'RateLimit-Reset': '60',
+  });
+  assertEquals(headers({ kind: 'exceeded', quota: hourly, resetTime: 11_500 })['Retry-After'], '2');
+  assertEquals(headers({ kind: 'paid', balance: 42 }), {});
+});
+
+Deno.test("handleRequest - exposes rate limit and credit headers", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const config: Config = { ...defaultConfig, freeRatelimit: 1, cacheSeconds: 0 };
+  await kv.set([`user:token123`], { access_token: "token123", balance: 5 } as PolarUser);
+  const handler = handleRequest(config, kv, {});
+
+  const free = await handler(new Request("https://example.com/a"));
+  assertEquals(free.headers.get('RateLimit-Remaining'), '0');
+
+  const exceeded = await handler(new Request("https://example.com/b"));
+  assertEquals(exceeded.status, 402);
+  assert(exceeded.headers.get('Retry-After'));
+
+  const paid = await handler(new Request("https://example.com/c", { headers: { Authorization: "Bearer token123" } }));
+  assertEquals(paid.headers.get('X-Credits-Remaining'), '4');
+  assertEquals(paid.headers.get('RateLimit-Remaining'), null);
+
+  await Promise.all([free.text(), exceeded.text(), paid.text()]);
+  kv.close();
+});
+
+// === ROUTE PRICING TESTS ===
+
+Deno.test("resolveRoutePolicy - matches method and URLPattern, first entry wins", () => {
+  const config: Config = {
+    ...defaultConfig,
+    priceCredit: 1,
+    pricing: {
+      "GET /api/status": { free: true },
+      "POST /api/images/:size": { price: 25, freeQuota: 2, countsAgainstFreeTier: false },
+      "/api/*": { price: 3 },
+    },
+  };
+  const resolve = resolveRoutePolicy(compileRoutes(config.pricing), config);
+
+  assertEquals(resolve("GET", new URL("https://example.com/api/status")).free, true);
+  assertEquals(resolve("POST", new URL("https://example.com/api/status")).price, 3);
+
+  const images = resolve("POST", new URL("https://example.com/api/images/large"));
+  assertEquals(images.price, 25);
+  assertEquals(images.freeQuotas, [{ scope: "route:POST /api/images/:size", limit: 2, windowSeconds: 3600 }]);
+
+  const fallback = resolve("GET", new URL("https://example.com/other"));
+  assertEquals(fallback, { price: 1, free: false, freeQuotas: [{ scope: "global", limit: 10, windowSeconds: 3600 }] });
+});
+
+Deno.test("handleRequest - applies route prices and free quotas", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const config: Config = {
+    ...defaultConfig,
+    freeRatelimit: 100,
+    cacheSeconds: 0,
+    pricing: {
+      "/free": { free: true },
+      "/limited": { freeQuota: 1 },
+      "/paid-only": { price: 4, countsAgainstFreeTier: false },
+    },
+  };
+  await kv.set([`user:token123`], { access_token: "token123", balance: 10 } as PolarUser);
+  const handler = handleRequest(config, kv, {});
+  const request = (path: string, token?: string) =>
+    handler(new Request(`https://example.com${path}`, token ? { headers: { Authorization: `Bearer ${token}` } } : {}));
+
+  const statuses: number[] = [];
+  for (const path of ["/free", "/free", "/limited", "/limited", "/paid-only"]) {
+    const response = await request(path);
+    await response.text();
+    statuses.push(response.status);
+  }
+  assertEquals(statuses, [200, 200, 200, 402, 402]);
+
+  const paid = await request("/paid-only", "token123");
+  await paid.text();
+  assertEquals(paid.headers.get('X-Credits-Remaining'), '6');
+
+  const free = await request("/free", "token123");
+  await free.text();
+  assertEquals(free.headers.get('X-Credits-Remaining'), '6');
+  kv.close();
+});
+
+Deno.test("settleMeteredAmount - usage capped at hold, route price when unreported", () => {
+  const settle = settleMeteredAmount({ maxPrice: 35, unitPrice: 0.5 }, 10);
+
+  assertEquals(settle([]), 10);
+  assertEquals(settle([{ units: 5 }, { units: 2 }]), 4);
+  assertEquals(settle([{ units: 1000, reason: "tokens" }]), 35);
+});
+
+Deno.test("handleRequest - metered routes hold, settle and release", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const config: Config = {
+    ...defaultConfig,
+    cacheSeconds: 0,
+    pricing: { "/generate": { price: 1, metered: { maxPrice: 30 } } },
+    fetch: (request, context) => {
+      const url = new URL(request.url);
+      if (url.searchParams.has("fail")) {
+        return Promise.reject(new Error("upstream failed"));
+      }
+      if (url.searchParams.has("header")) {
+        return Promise.resolve(new Response("{}", { headers: { "X-Meter-Units": "7" } }));
+      }
+      context.meter?.(12, "tokens");
+      return Promise.resolve(new Response("{}"));
+    },
+  };
+  await kv.set([`user:token123`], { access_token: "token123", balance: 100 } as PolarUser);
+  const handler = handleRequest(config, kv, {});
+  const request = (query: string) =>
+    handler(new Request(`https://example.com/generate${query}`, { headers: { Authorization: "Bearer token123" } }));
+
+  const metered = await request("");
+  await metered.text();
+  assertEquals(metered.headers.get('X-Credits-Remaining'), '88');
+
+  const viaHeader = await request("?header");
+  await viaHeader.text();
+  assertEquals(viaHeader.headers.get('X-Credits-Remaining'), '81');
+
+  const failed = await request("?fail");
+  await failed.text();
+  assertEquals(failed.headers.get('X-Credits-Remaining'), '81');
+  assertEquals((await kv.get<PolarUser>([`user:token123`])).value?.balance, 81);
+  kv.close();
+});
+
+Deno.test("creditUser - parallel credits all land", async () => {
+  const kv = await Deno.openKv(":memory:");
+  await kv.set([`user:token123`], { access_token: "token123", balance: 0 } as PolarUser);
+
+  await Promise.all(Array.from({ length: 10 }, () => creditUser(kv, defaultConfig)("token123", 2)));
+
+  assertEquals((await kv.get<PolarUser>([`user:token123`])).value?.balance, 20);
+  kv.close();
+});
+
+// === BILLING POLICY TESTS ===
+
+Deno.test("decideBilling - policies decide free, charge or deny without KV", () => {
+  const route = { price: 2, free: false, freeQuotas: [quota(1)] };
+  const anonymous = { kind: 'anonymous', clientId: "ip:1.2.3.4" } as const;
+  const payer = { kind: 'authenticated', user: { access_token: "t", balance: 10 } } as const;
+  const broke = { kind: 'insufficient_balance', user: { access_token: "t", balance: 0 } } as const;
+  const allowed = { kind: 'allowed', quota: quota(1), remaining: 0, resetTime: 1000 } as const;
+  const exceeded = { kind: 'exceeded', quota: quota(1), resetTime: 1000 } as const;
+
+  const quotaFirst = decideBilling({ kind: 'free_quota_first' });
+  assertEquals(quotaFirst(payer, route, allowed), { kind: 'free', rateLimit: allowed });
+  assertEquals(quotaFirst(payer, route, exceeded), { kind: 'charge', amount: 2 });
+  assertEquals(quotaFirst(broke, route, exceeded), { kind: 'deny', reason: 'free_quota_exhausted', rateLimit: exceeded });
+
+  const paidFirst = decideBilling({ kind: 'paid_first' });
+  assertEquals(paidFirst(payer, route, allowed), { kind: 'charge', amount: 2 });
+  assertEquals(paidFirst(broke, route, allowed), { kind: 'free', rateLimit: allowed });
+
+  const anonymousOnly = decideBilling({ kind: 'free_for_anonymous_only' });
+  assertEquals(anonymousOnly(anonymous, route, allowed), { kind: 'free', rateLimit: allowed });
+  assertEquals(anonymousOnly(broke, route, null), { kind: 'deny', reason: 'insufficient_balance' });
+
+  const paidOnly = decideBilling({ kind: 'paid_only' });
+  assertEquals(paidOnly(anonymous, route, null), { kind: 'deny', reason: 'payment_required' });
+  assertEquals(paidOnly(payer, { ...route, metered: { maxPrice: 9 } }, null), { kind: 'charge', amount: 9 });
+  assertEquals(paidOnly(anonymous, { ...route, free: true }, null), { kind: 'free' });
+
+  assertEquals(freeQuotaSubject({ kind: 'paid_first' })(payer), null);
+  assertEquals(freeQuotaSubject({ kind: 'free_quota_first' })(payer), "t");
+  assertEquals(freeQuotaSubject({ kind: 'paid_only' })(anonymous), null);
+});
+
+Deno.test("handleRequest - free_quota_first lets paying users use their free quota first", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const config: Config = { ...defaultConfig, freeRatelimit: 2, cacheSeconds: 0, billingPolicy: { kind: 'free_quota_first' } };
+  await kv.set([`user:token123`], { access_token: "token123", balance: 10 } as PolarUser);
+  const handler = handleRequest(config, kv, {});
+
+  for (const path of ["/one", "/two", "/three"]) {
+    await (await handler(new Request(`https://example.com${path}`, { headers: { Authorization: "Bearer token123" } }))).text();
+  }
+
+  assertEquals((await kv.get<PolarUser>([`user:token123`])).value?.balance, 9);
+  kv.close();
+});
+
+Deno.test("handleRequest - cache hits on priced routes are billed and private entries stay with their caller", async () => {
+  const kv = await Deno.openKv(":memory:");
+  let calls = 0;
+  const config: Config = {
+    ...defaultConfig,
+    freeRatelimit: 0,
+    cacheSeconds: 300,
+    pricing: {
+      "/report": { price: 4, cache: { kind: 'discounted', price: 1 } },
+      "/mine": { price: 2, cache: { kind: 'private' } },
+    },
+    fetch: () => {
+      calls++;
+      return Promise.resolve(Response.json({ calls }, { headers: { 'Cache-Control': 'public' } }));
+    },
+  };
+  await kv.set([`user:token123`], { access_token: "token123", balance: 20 } as PolarUser);
+  const handler = handleRequest(config, kv, {});
+  const request = async (path: string, token?: string) => {
+    const response = await handler(new Request(`https://example.com${path}`, {
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+    }));
+    await response.text();
+    return [response.status, response.headers.get('X-Cache'), response.headers.get('X-Credits-Remaining')];
+  };
+
+  assertEquals(await request("/report", "token123"), [200, 'MISS', '16']);
+  assertEquals(await request("/report", "token123"), [200, 'HIT', '15']);
+  assertEquals((await request("/report"))[0], 402);
+
+  assertEquals(await request("/mine", "token123"), [200, 'MISS', '13']);
+  assertEquals(await request("/mine", "token123"), [200, 'HIT', '13']);
+  assertEquals((await request("/mine"))[0], 402);
+  assertEquals(calls, 2);
+  kv.close();
+});
+
+Deno.test("handleRequest - cache keys vary on the caller, Vary headers and the key hook", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const config: Config = {
+    ...defaultConfig,
+    cacheSeconds: 300,
+    pricing: { "/*": { free: true } },
+    cacheKey: { varyOnUser: true, build: (parts, key) => parts.pathname === "/shared" ? "cache:shared" : key },
+    fetch: (request, context) => Promise.resolve(Response.json(
+      { user: context.user?.access_token ?? null, lang: request.headers.get("Accept-Language") },
+      { headers: { Vary: "Accept-Language", ...(new URL(request.url).pathname === "/public" ? { 'Cache-Control': 'public' } : {}) } },
+    )),
+  };
+  await kv.set([`user:alice`], { access_token: "alice", balance: 5 } as PolarUser);
+  await kv.set([`user:bob`], { access_token: "bob", balance: 5 } as PolarUser);
+  const handler = handleRequest(config, kv, {});
+  const request = async (path: string, token?: string, lang = "en") => {
+    const response = await handler(new Request(`https://example.com${path}`, {
+      headers: { "Accept-Language": lang, ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+    }));
+    return [response.headers.get('X-Cache'), await response.json()];
+  };
+
+  assertEquals(await request("/me", "alice"), ['MISS', { user: "alice", lang: "en" }]);
+  assertEquals(await request("/me", "alice"), ['HIT', { user: "alice", lang: "en" }]);
+  assertEquals(await request("/me", "bob"), ['MISS', { user: "bob", lang: "en" }]);
+  assertEquals(await request("/me", "alice", "de"), ['MISS', { user: "alice", lang: "de" }]);
+  assertEquals(await request("/me"), ['MISS', { user: null, lang: "en" }]);
+
+  // The key hook can drop the user partition; shared entries then need Cache-Control: public
+  assertEquals(await request("/shared", "alice"), ['MISS', { user: "alice", lang: "en" }]);
+  assertEquals(await request("/shared", "bob"), ['MISS', { user: "bob", lang: "en" }]);
+  assertEquals((await kv.get(["cache:shared"])).value, null);
+  kv.close();
+});
+
+Deno.test("parseCacheControl and cacheLifetime - honor handler directives", () => {
+  assertEquals(parseCacheControl('public, max-age=60, s-maxage="120"'), { noStore: false, noCache: false, private: false, public: true, maxAge: 60, sMaxAge: 120 });
+  assertEquals(parseCacheControl('no-store, max-age=abc'), { noStore: true, noCache: false, private: false, public: false });
+
+  const lifetime = cacheLifetime({ ...defaultConfig, cacheSeconds: 300 });
+  const response = (status: number, headers: Record<string, string> = {}) => new Response(null, { status, headers });
+
+  assertEquals(lifetime("GET", response(200), false, false), 300);
+  assertEquals(lifetime("GET", response(404), false, false), 300);
+  assertEquals(lifetime("POST", response(200), false, false), null);
+  assertEquals(lifetime("HEAD", response(200), false, false), null);
+  assertEquals(lifetime("GET", response(201), false, false), null);
+  assertEquals(lifetime("GET", response(200, { 'Cache-Control': 'no-store' }), false, false), null);
+  assertEquals(lifetime("GET", response(200, { 'Cache-Control': 'private' }), false, false), null);
+  assertEquals(lifetime("GET", response(200, { 'Cache-Control': 'private, max-age=30' }), true, true), 30);
+  assertEquals(lifetime("GET", response(200, { 'Cache-Control': 'max-age=30, s-maxage=90' }), false, false), 90);
+  assertEquals(lifetime("GET", response(200), true, false), null);
+  assertEquals(cacheLifetime({ ...defaultConfig, cacheSeconds: 0 })("GET", response(200), false, false), null);
+});
+
+Deno.test("handleRequest - replays cached status and headers with Age and skips uncacheable requests", async () => {
+  const kv = await Deno.openKv(":memory:");
+  let calls = 0;
+  const config: Config = {
+    ...defaultConfig,
+    cacheSeconds: 300,
+    pricing: { "/*": { free: true } },
+    fetch: (request) => {
+      calls++;
+      const path = new URL(request.url).pathname;
+      const headers: Record<string, string> = path === "/volatile"
+        ? { 'Cache-Control': 'no-store' }
+        : { 'Cache-Control': 'max-age=60', 'ETag': '"v1"', 'Content-Language': 'en', 'X-Internal': 'secret' };
+      return Promise.resolve(path === "/empty" ? new Response(null, { status: 204, headers }) : Response.json({ calls }, { headers }));
+    },
+  };
+  const handler = handleRequest(config, kv, {});
+  const send = async (path: string, method = "GET") => {
+    const response = await handler(new Request(`https://example.com${path}`, { method }));
+    await response.body?.cancel();
+    return response;
+  };
+
+  await send("/doc");
+  const hit = await send("/doc");
+  assertEquals(hit.headers.get('X-Cache'), 'HIT');
+  assertEquals(hit.headers.get('Cache-Control'), 'max-age=60');
+  assertEquals(hit.headers.get('ETag'), '"v1"');
+  assertEquals(hit.headers.get('Content-Language'), 'en');
+  assertEquals(hit.headers.get('Age'), '0');
+  assertEquals(hit.headers.get('X-Internal'), null);
+
+  await send("/empty");
+  const empty = await send("/empty");
+  assertEquals([empty.status, empty.headers.get('X-Cache')], [204, 'HIT']);
+
+  assertEquals((await send("/doc", "POST")).headers.get('X-Cache'), 'MISS');
+  await send("/volatile");
+  assertEquals((await send("/volatile")).headers.get('X-Cache'), 'MISS');
+  assertEquals(calls, 5);
+  kv.close();
+});
+
+Deno.test("handleRequest - applies the response header deny list to cache hits", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const config: Config = {
+    ...defaultConfig,
+    cacheSeconds: 300,
+    pricing: { "/*": { free: true } },
+    responseHeaders: { deny: ['Location', 'Link'] },
+    fetch: () => Promise.resolve(Response.json({ ok: true }, { headers: { 'Location': '/elsewhere', 'Link': '</next>; rel="next"', 'Content-Language': 'en' } })),
+  };
+  const handler = handleRequest(config, kv, {});
+  const send = async () => {
+    const response = await handler(new Request("https://example.com/doc"));
+    await response.body?.cancel();
+    return response;
+  };
+
+  for (const expected of ['MISS', 'HIT']) {
+    const response = await send();
+    assertEquals(
+      [response.headers.get('X-Cache'), response.headers.get('Location'), response.headers.get('Link'), response.headers.get('Content-Language')],
+      [expected, null, null, 'en'],
+    );
+  }
+  kv.close();
+});
+
+Deno.test("handleRequest - never stores HEAD responses but answers HEAD from GET entries", async () => {
+  const kv = await Deno.openKv(":memory:");
+  let calls = 0;
+  const config: Config = {
+    ...defaultConfig,
+    cacheSeconds: 300,
+    pricing: { "/*": { free: true } },
+    fetch: (request) => {
+      calls++;
+      return Promise.resolve(request.method === "HEAD" ? new Response(null, { headers: { 'Content-Type': 'application/json' } }) : Response.json({ calls }));
+    },
+  };
+  const handler = handleRequest(config, kv, {});
+  const send = (path: string, method = "GET") => handler(new Request(`https://example.com${path}`, { method }));
+
+  const head = await send("/doc", "HEAD");
+  assertEquals(head.headers.get('X-Cache'), 'MISS');
+  const get = await send("/doc");
+  assertEquals(get.headers.get('X-Cache'), 'MISS');
+  assertEquals(await get.json(), { calls: 2 });
+
+  const cachedHead = await send("/doc", "HEAD");
+  assertEquals(cachedHead.headers.get('X-Cache'), 'HIT');
+  await cachedHead.body?.cancel();
+  assertEquals(calls, 2);
+  kv.close();
+});
+
+Deno.test("isNotModified - If-None-Match wins over If-Modified-Since and compares weakly", () => {
+  const response = new Response("{}", { headers: { ETag: '"abc"', 'Last-Modified': 'Tue, 01 Sep 2026 10:00:00 GMT' } });
+  const request = (headers: Record<string, string>, method = "GET") => new Request("https://example.com/", { method, headers });
+
+  assertEquals(isNotModified(request({ 'If-None-Match': 'W/"abc"' }), response), true);
+  assertEquals(isNotModified(request({ 'If-None-Match': '"x", "abc"' }), response), true);
+  assertEquals(isNotModified(request({ 'If-None-Match': '*' }), response), true);
+  assertEquals(isNotModified(request({ 'If-None-Match': '"x"', 'If-Modified-Since': 'Wed, 02 Sep 2026 10:00:00 GMT' }), response), false);
+  assertEquals(isNotModified(request({ 'If-Modified-Since': 'Tue, 01 Sep 2026 10:00:00 GMT' }), response), true);
+  assertEquals(isNotModified(request({ 'If-Modified-Since': 'Mon, 31 Aug 2026 10:00:00 GMT' }), response), false);
+  assertEquals(isNotModified(request({ 'If-None-Match': '"abc"' }, "POST"), response), false);
+});
+
+Deno.test("handleRequest - answers conditional requests with 304 and bills them by rule", async () => {
+  const kv = await Deno.openKv(":memory:");
+  await kv.set([`user:token123`], { access_token: "token123", balance: 20 } as PolarUser);
+  const base: Config = {
+    ...defaultConfig,
+    freeRatelimit: 0,
+    pricing: { "/*": { price: 2 } },
+    fetch: () => Promise.resolve(Response.json({ report: 1 }, { headers: { 'Cache-Control': 'public' } })),
+  };
+  const send = async (config: Config, path: string, headers: Record<string, string> = {}) => {
+    const response = await handleRequest(config, kv, {})(new Request(`https://example.com${path}`, {
+      headers: { Authorization: "Bearer token123", ...headers },
+    }));
+    await response.body?.cancel();
+    return response;
+  };
+
+  const first = await send(base, "/report");
+  const etag = first.headers.get('ETag') ?? '';
+  assert(/^"[0-9a-f]{32}"$/.test(etag));
+  assertEquals(first.headers.get('X-Credits-Remaining'), '18');
+
+  const revalidated = await send(base, "/report", { 'If-None-Match': etag });
+  assertEquals([revalidated.status, revalidated.headers.get('ETag')], [304, etag]);
+  assertEquals((await send(base, "/report")).headers.get('X-Credits-Remaining'), '16');
+
+  const billed = await send({ ...base, notModifiedBilling: 'billed' }, "/report", { 'If-None-Match': etag });
+  assertEquals([billed.status, billed.headers.get('X-Credits-Remaining')], [304, '14']);
+
+  // Uncached misses are refunded when the client already holds the result
+  const miss = await send({ ...base, cacheSeconds: 0 }, "/fresh", { 'If-None-Match': etag });
+  assertEquals([miss.status, miss.headers.get('X-Credits-Remaining')], [304, '14']);
+  kv.close();
+});
+
+Deno.test("handleRequest - ETags validate one representation and are never weak", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const config: Config = {
+    ...defaultConfig,
+    cacheSeconds: 0,
+    pricing: { "/*": { free: true } },
+    fetch: (request) =>
+      Promise.resolve(Response.json({ report: 1 }, { headers: { ETag: new URL(request.url).pathname === "/weak" ? 'W/"v1"' : '"v1"' } })),
+  };
+  const handler = handleRequest(config, kv, {});
+  const send = async (path: string, headers: Record<string, string> = {}) => {
+    const response = await handler(new Request(`https://example.com${path}`, { headers }));
+    await response.body?.cancel();
+    return response;
+  };
+
+  const json = await send("/weak");
+  const html = await send("/weak", { Accept: "text/html" });
+  assert(/^"[0-9a-f]{32}"$/.test(json.headers.get('ETag') ?? ''));
+  assert(json.headers.get('ETag') !== html.headers.get('ETag'));
+  assertEquals((await send("/weak", { Accept: "text/html", 'If-None-Match': json.headers.get('ETag') ?? '' })).status, 200);
+
+  assertEquals((await send("/strong")).headers.get('ETag'), '"v1"');
+  assert((await send("/strong", { Accept: "text/html" })).headers.get('ETag') !== '"v1"');
+  kv.close();
+});
+
+Deno.test("handleRequest - coalesces identical misses into one handler run", async () => {
+  const kv = await Deno.openKv(":memory:");
+  let calls = 0;
+  const config: Config = {
+    ...defaultConfig,
+    cacheSeconds: 300,
+    pricing: { "/*": { free: true } },
+    fetch: async () => {
+      calls++;
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      return Response.json({ calls });
+    },
+  };
+  const handler = handleRequest(config, kv, {});
+
+  const responses = await Promise.all([1, 2, 3].map(() => handler(new Request("https://example.com/expensive"))));
+  const bodies = await Promise.all(responses.map((response) => response.json()));
+
+  assertEquals(calls, 1);
+  assertEquals(bodies, [{ calls: 1 }, { calls: 1 }, { calls: 1 }]);
+  assertEquals(responses.map((response) => response.headers.get('X-Cache')).sort(), ['HIT', 'HIT', 'MISS']);
+  assertEquals((await kv.get(["cache_lease:cache:v1:/expensive::json"])).value, null);
+  kv.close();
+});
+
+Deno.test("handleRequest - signed-in misses that won't be cached don't wait for each other", async () => {
+  const kv = await Deno.openKv(":memory:");
+  let active = 0;
+  let peak = 0;
+  const config: Config = {
+    ...defaultConfig,
+    freeRatelimit: 0,
+    pricing: { "/*": { price: 1 } },
+    fetch: async () => {
+      peak = Math.max(peak, ++active);
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      active--;
+      return Response.json({ ok: true });
+    },
+  };
+  await kv.set([`user:alice`], { access_token: "alice", balance: 10 } as PolarUser);
+  await kv.set([`user:bob`], { access_token: "bob", balance: 10 } as PolarUser);
+  const handler = handleRequest(config, kv, {});
+
+  const responses = await Promise.all(["alice", "bob"].map((token) =>
+    handler(new Request("https://example.com/report", { headers: { Authorization: `Bearer ${token}` } }))
+  ));
+  await Promise.all(responses.map((response) => response.body?.cancel()));
+  assertEquals(peak, 2);
+  kv.close();
+});
+
+Deno.test("handleRequest - serves stale entries while revalidating and when the handler fails", async () => {
+  const kv = await Deno.openKv(":memory:");
+  let version = 1;
+  const config: Config = {
+    ...defaultConfig,
+    cacheSeconds: 60,
+    cacheRevalidation: { staleWhileRevalidateSeconds: 30, staleIfErrorSeconds: 600 },
+    pricing: { "/*": { free: true } },
+    fetch: () => version > 0 ? Promise.resolve(Response.json({ version })) : Promise.reject(new Error("upstream down")),
+  };
+  const handler = handleRequest(config, kv, {});
+  const key = ["cache:v1:/feed::json"];
+  const age = async (seconds: number) => {
+    const entry = await kv.get<{ storedAt: number }>(key);
+    await kv.set(key, { ...entry.value, storedAt: Date.now() - seconds * 1000 });
+  };
+
+  await (await handler(new Request("https://example.com/feed"))).text();
+  await age(70);
+  version = 2;
+
+  const stale = await handler(new Request("https://example.com/feed"));
+  assertEquals([stale.headers.get('X-Cache'), await stale.json()], ['STALE', { version: 1 }]);
+
+  for (let attempt = 0; attempt < 50 && (await kv.get<{ storedAt: number }>(key)).value!.storedAt < Date.now() - 60_000; attempt++) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  const refreshed = await handler(new Request("https://example.com/feed"));
+  assertEquals([refreshed.headers.get('X-Cache'), await refreshed.json()], ['HIT', { version: 2 }]);
+
+  await age(300);
+  version = 0;
+  const fallback = await handler(new Request("https://example.com/feed"));
+  assertEquals([fallback.status, fallback.headers.get('X-Cache'), await fallback.json()], [200, 'STALE', { version: 2 }]);
+  kv.close();
+});
+
+Deno.test("handleRequest - only callers cleared for a stale entry start its refresh", async () => {
+  const kv = await Deno.openKv(":memory:");
+  await kv.set([`user:token123`], { access_token: "token123", balance: 20 } as PolarUser);
+  let calls = 0;
+  const config: Config = {
+    ...defaultConfig,
+    freeRatelimit: 0,
+    cacheSeconds: 60,
+    cacheRevalidation: { staleWhileRevalidateSeconds: 30 },
+    pricing: { "/*": { price: 2 } },
+    fetch: () => Promise.resolve(Response.json({ calls: ++calls }, { headers: { 'Cache-Control': 'public' } })),
+  };
+  const handler = handleRequest(config, kv, {});
+  const key = ["cache:v1:/feed::json"];
+  const send = async (headers: Record<string, string> = {}) => {
+    const response = await handler(new Request("https://example.com/feed", { headers }));
+    await response.body?.cancel();
+    return response;
+  };
+
+  await send({ Authorization: "Bearer token123" });
+  const entry = await kv.get<{ storedAt: number }>(key);
+  await kv.set(key, { ...entry.value, storedAt: Date.now() - 70_000 });
+
+  assertEquals((await send()).status, 402);
+  await new Promise((resolve) => setTimeout(resolve, 20));
+  assertEquals(calls, 1);
+
+  assertEquals((await send({ Authorization: "Bearer token123" })).headers.get('X-Cache'), 'STALE');
+  for (let attempt = 0; attempt < 50 && (await kv.get<{ storedAt: number }>(key)).value!.storedAt < Date.now() - 60_000; attempt++) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  assertEquals(calls, 2);
+  kv.close();
+});
+
+// === STREAMING TESTS ===
+
+// Handler response streaming the given SSE events one chunk at a time
+const eventStream = (events: readonly string[]) =>
+  new Response(ReadableStream.from(events.map((event) => new TextEncoder().encode(`data: ${event}\n\n`))), {
+    headers: { 'Content-Type': 'text/event-stream' },
+  });
+
+Deno.test("handleRequest - forwards event streams and bills them at start or per chunk", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const config: Config = {
+    ...defaultConfig,
+    freeRatelimit: 0,
+    cacheSeconds: 0,
+    pricing: {
+      "/events": { price: 3 },
+      "/llm": { metered: { maxPrice: 5, unitPrice: 1 }, stream: { meter: 'chunks' } },
+    },
+    fetch: (request) => {
+      const count = Number(new URL(request.url).searchParams.get("n") ?? 2);
+      return Promise.resolve(eventStream(Array.from({ length: count }, (_, index) => `token${index}`)));
+    },
+  };
+  await kv.set([`user:token123`], { access_token: "token123", balance: 20 } as PolarUser);
+  const handler = handleRequest(config, kv, {});
+  const send = (path: string) => handler(new Request(`https://example.com${path}`, { headers: { Authorization: "Bearer token123" } }));
+  const balance = async () => (await kv.get<PolarUser>([`user:token123`])).value?.balance;
+
+  const events = await send("/events");
+  assertEquals(events.headers.get('Content-Type'), 'text/event-stream');
+  assertEquals(await events.text(), "data: token0\n\ndata: token1\n\n");
+  assertEquals(await balance(), 17);
+
+  assertEquals((await (await send("/llm?n=3")).text()).match(/data:/g)?.length, 3);
+  assertEquals(await balance(), 14);
+
+  // The stream stops once the hold is used up
+  assertEquals((await (await send("/llm?n=8")).text()).match(/data:/g)?.length, 5);
+  assertEquals(await balance(), 9);
+  kv.close();
+});
+
+Deno.test("handleRequest - caches streams by tee-ing them when the route asks for it, except event streams", async () => {
+  const kv = await Deno.openKv(":memory:");
+  let calls = 0;
+  const config: Config = {
+    ...defaultConfig,
+    cacheSeconds: 300,
+    pricing: { "/*": { free: true, stream: { cache: true } } },
+    fetch: (request) => {
+      calls++;
+      return Promise.resolve(new URL(request.url).pathname === "/events"
+        ? eventStream(["a", "b"])
+        : new Response(ReadableStream.from(['{"a":1}\n', '{"b":2}\n'].map((line) => new TextEncoder().encode(line))), {
+          headers: { 'Content-Type': 'application/x-ndjson' },
+        }));
+    },
+  };
+  const handler = handleRequest(config, kv, {});
+  const send = (path: string) => handler(new Request(`https://example.com${path}`));
+
+  assertEquals(await (await send("/feed")).text(), '{"a":1}\n{"b":2}\n');
+  for (let attempt = 0; attempt < 50 && !(await kv.get(["cache:v1:/feed::json"])).value; attempt++) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+
+  const hit = await send("/feed");
+  assertEquals([hit.headers.get('X-Cache'), hit.headers.get('Content-Type')], ['HIT', 'application/x-ndjson']);
+  assertEquals(await hit.text(), '{"a":1}\n{"b":2}\n');
+  assertEquals(calls, 1);
+
+  assertEquals(await (await send("/events")).text(), "data: a\n\ndata: b\n\n");
+  assertEquals((await kv.get(["cache:v1:/events::json"])).value, null);
+  await (await send("/events")).body?.cancel();
+  assertEquals(calls, 3);
+  kv.close();
+});
+
+Deno.test("bufferStream - stops buffering and cancels the stream past the limit", async () => {
+  const chunks = ["ab", "cd", "ef"].map((chunk) => new TextEncoder().encode(chunk));
+  const pulled: string[] = [];
+  const source = () => {
+    const remaining = [...chunks];
+    return new ReadableStream<Uint8Array>({
+      pull(controller) {
+        const chunk = remaining.shift();
+        if (chunk) {
+          pulled.push(new TextDecoder().decode(chunk));
+          controller.enqueue(chunk);
+        } else {
+          controller.close();
+        }
+      },
+      cancel() {
+        pulled.push("cancelled");
+      },
+    });
+  };
+
+  assertEquals(new TextDecoder().decode((await bufferStream(source(), 6))!), "abcdef");
+  pulled.length = 0;
+  assertEquals(await bufferStream(source(), 3), null);
+  assertEquals(pulled, ["ab", "cd", "cancelled"]);
+});
+
+// === BINARY RESPONSE TESTS ===
+
+Deno.test("isTextResponse - formats apply to text bodies only", () => {
+  const typed = (type?: string) => new Response(null, type ? { headers: { 'Content-Type': type } } : {});
+
+  assertEquals(isTextResponse(typed()), true);
+  assertEquals(isTextResponse(typed('application/json; charset=utf-8')), true);
+  assertEquals(isTextResponse(typed('application/problem+json')), true);
+  assertEquals(isTextResponse(typed('text/markdown')), true);
+  assertEquals(isTextResponse(typed('image/png')), false);
+  assertEquals(isTextResponse(typed('application/pdf')), false);
+  assertEquals(isTextResponse(typed('audio/mpeg')), false);
+});
+
+Deno.test("handleRequest - passes binary bodies through and caches them in chunks", async () => {
+  const kv = await Deno.openKv(":memory:");
+  let calls = 0;
+  const png = Uint8Array.from({ length: 150_000 }, (_, index) => (index * 31) % 256);
+  const config: Config = {
+    ...defaultConfig,
+    cacheSeconds: 300,
+    pricing: { "/*": { free: true } },
+    fetch: () => {
+      calls++;
+      return Promise.resolve(new Response(png, { headers: { 'Content-Type': 'image/png' } }));
+    },
+  };
+  const handler = handleRequest(config, kv, {});
+
+  const miss = await handler(new Request("https://example.com/image.html"));
+  assertEquals([miss.headers.get('X-Cache'), miss.headers.get('Content-Type')], ['MISS', 'image/png']);
+  assertEquals(new Uint8Array(await miss.arrayBuffer()), png);
+
+  const chunks = await Array.fromAsync(kv.list({ prefix: ["cache_chunk:cache:v1:/image.html::html"] }));
+  assertEquals(chunks.length, 3);
+
+  const hit = await handler(new Request("https://example.com/image.html"));
+  assertEquals([hit.headers.get('X-Cache'), hit.headers.get('Content-Type'), hit.headers.get('ETag')], ['HIT', 'image/png', miss.headers.get('ETag')]);
+  assertEquals(new Uint8Array(await hit.arrayBuffer()), png);
+  assertEquals(calls, 1);
+  kv.close();
+});
+
+// === CONTENT NEGOTIATION TESTS ===
+
+Deno.test("getResponseFormat - negotiates Accept q-values and wildcards", () => {
+  const negotiate = (acceptHeader: string, pathname = "/api") =>
+    getResponseFormat({ url: new URL(`https://example.com${pathname}`), pathname, searchParams: new URLSearchParams(), acceptHeader });
+
+  assertEquals(negotiate(""), "json");
+  assertEquals(negotiate("*/*"), "json");
+  assertEquals(negotiate("text/*"), "html");
+  assertEquals(negotiate("text/html;q=0.5, text/markdown"), "markdown");
+  assertEquals(negotiate("application/json;q=0.1, text/html;q=0.9"), "html");
+  assertEquals(negotiate("text/*;q=0.8, text/html;q=0"), "markdown");
+  assertEquals(negotiate("text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8"), "html");
+  assertEquals(negotiate("image/png"), null);
+  assertEquals(negotiate("application/json;q=0"), null);
+  assertEquals(negotiate("image/png", "/page.md"), "markdown");
+  assertEquals(negotiate("text/plain"), "text");
+  assertEquals(negotiate("text/yaml, text/csv;q=0.9"), "yaml");
+  assertEquals(negotiate("application/x-ndjson"), "ndjson");
+  assertEquals(negotiate("", "/report.csv"), "csv");
+  assertEquals(negotiate("", "/notes.txt"), "text");
+  assertEquals(negotiate("", "/config.yml"), "yaml");
+  assertEquals(negotiate("text/html", "/events.ndjson"), "ndjson");
+});
+
+Deno.test("jsonToMarkdown / jsonToHtml - tables for arrays of objects, nested lists otherwise", () => {
+  const rows = [{ id: 1, name: "a|b" }, { id: 2, tags: ["x"] }] as const;
+  assertEquals(jsonToMarkdown(rows), [
+    "| id | name | tags |",
+    "| --- | --- | --- |",
+    "| 1 | a\\|b |  |",
+    '| 2 |  | ["x"] |',
+  ].join("\n"));
+  assertEquals(jsonToMarkdown({ user: { name: "Ann", roles: ["admin", null] }, total: 3 }), [
+    "- **user**:",
+    "  - **name**: Ann",
+    "  - **roles**:",
+    "    - admin",
+    "    - null",
+    "- **total**: 3",
+  ].join("\n"));
+
+  assertEquals(
+    jsonToHtml(rows),
+    "<table><thead><tr><th>id</th><th>name</th><th>tags</th></tr></thead>" +
+      "<tbody><tr><td>1</td><td>a|b</td><td></td></tr><tr><td>2</td><td></td><td><ul><li>x</li></ul></td></tr></tbody></table>",
+  );
+  assertEquals(jsonToHtml({ "<b>": "<script>" }), "<ul><li><strong>&lt;b&gt;</strong>: &lt;script&gt;</li></ul>");
+});
+
+Deno.test("jsonToText / jsonToYaml / jsonToCsv / jsonToNdjson - token-efficient views of JSON results", () => {
+  const rows = [{ id: 1, note: 'say "hi", ok' }, { id: 2, tags: ["x", "y"] }] as const;
+
+  assertEquals(jsonToText({ user: { name: "Ann" }, rows }), "user:\n  name: Ann\nrows:\n  id\tnote\ttags\n  1\tsay \"hi\", ok\t\n  2\t\t[\"x\",\"y\"]");
+  assertEquals(jsonToYaml({ user: { name: "Ann", admin: true }, rows, empty: [], code: "007" }), [
+    "user:",
+    "  name: Ann",
+    "  admin: true",
+    "rows:",
+    "  - id: 1",
+    "    note: \"say \\\"hi\\\", ok\"",
+    "  - id: 2",
+    "    tags:",
+    "      - x",
+    '      - "y"',
+    "empty: []",
+    "code: \"007\"",
+    "",
+  ].join("\n"));
+  assertEquals(jsonToCsv(rows), 'id,note,tags\r\n1,"say ""hi"", ok",\r\n2,,"[""x"",""y""]"\r\n');
+  assertEquals(jsonToCsv({ id: 1 }), "id\r\n1\r\n");
+  assertEquals(jsonToCsv(["a", "b"]), "value\r\na\r\nb\r\n");
+  assertEquals(jsonToNdjson(rows), '{"id":1,"note":"say \\"hi\\", ok"}\n{"id":2,"tags":["x","y"]}\n');
+  assertEquals(jsonToNdjson({ id: 1 }), '{"id":1}\n');
+});
+
+Deno.test("handleRequest - renders JSON views, varies on Accept and answers 406", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const config: Config = {
+    ...defaultConfig,
+    pricing: { "/*": { free: true } },
+    fetch: () => Promise.resolve(Response.json({ items: [{ id: 1 }] }, { headers: { Vary: 'Accept-Language' } })),
+  };
+  const handler = handleRequest(config, kv, {});
+  const send = (accept: string) => handler(new Request("https://example.com/data", { headers: { Accept: accept } }));
+
+  const html = await send("text/html");
+  assertEquals(html.headers.get('Content-Type'), 'text/html');
+  assertEquals(html.headers.get('Vary'), 'accept-language, accept');
+  assertEquals(await html.text(), "<ul><li><strong>items</strong>: <table><thead><tr><th>id</th></tr></thead><tbody><tr><td>1</td></tr></tbody></table></li></ul>");
+
+  const markdown = await send("text/markdown, application/json;q=0.5");
+  assertEquals(await markdown.text(), "- **items**:\n  | id |\n  | --- |\n  | 1 |");
+
+  const csv = await send("text/csv");
+  assertEquals([csv.headers.get('Content-Type'), await csv.text()], ['text/csv', 'items\r\n"[{""id"":1}]"\r\n']);
+
+  const json = await send("application/json");
+  assertEquals(await json.json(), { items: [{ id: 1 }] });
+
+  const refused = await send("image/png");
+  assertEquals([refused.status, refused.headers.get('Vary')], [406, 'Accept']);
+  assertEquals((await refused.json()).message, "Available formats: application/json, text/html, text/markdown, text/plain, application/yaml, text/csv, application/x-ndjson");
+  kv.close();
+});
+
+Deno.test("handleRequest - keeps the handler's Content-Type on text no view applies to", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const config: Config = {
+    ...defaultConfig,
+    pricing: { "/*": { free: true } },
+    fetch: (request) =>
+      Promise.resolve(match(new URL(request.url).pathname)
+        .with("/page", () => new Response("<p>hi</p>", { headers: { 'Content-Type': 'text/html; charset=utf-8' } }))
+        .with("/table", () => new Response("id\r\n1\r\n", { headers: { 'Content-Type': 'text/csv' } }))
+        .otherwise(() => new Response("# Notes"))),
+  };
+  const handler = handleRequest(config, kv, {});
+  const send = async (path: string, accept: string) => {
+    const response = await handler(new Request(`https://example.com${path}`, { headers: { Accept: accept } }));
+    return [response.status, response.headers.get('Content-Type'), await response.text()];
+  };
+
+  assertEquals(await send("/page", "*/*"), [200, 'text/html; charset=utf-8', "<p>hi</p>"]);
+  assertEquals(await send("/page", "application/yaml"), [200, 'text/html; charset=utf-8', "<p>hi</p>"]);
+  assertEquals(await send("/table", "application/json"), [200, 'text/csv', "id\r\n1\r\n"]);
+  assertEquals(await send("/table", "image/png"), [200, 'text/csv', "id\r\n1\r\n"]);
+  assertEquals(await send("/notes", "application/json"), [200, 'text/plain;charset=UTF-8', "# Notes"]);
+  assertEquals((await send("/notes", "text/html"))[1], 'text/html');
+  kv.close();
+});
+
+Deno.test("handleRequest - Accept headers outside the formats still reach streamed and binary bodies", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const png = Uint8Array.from([137, 80, 78, 71]);
+  const config: Config = {
+    ...defaultConfig,
+    priceCredit: 2,
+    fetch: (request) =>
+      Promise.resolve(match(new URL(request.url).pathname)
+        .with("/events", () => new Response("data: a\n\n", { headers: { 'Content-Type': 'text/event-stream' } }))
+        .with("/image", () => new Response(png, { headers: { 'Content-Type': 'image/png' } }))
+        .otherwise(() => Response.json({ ok: true }))),
+  };
+  await kv.set([`user:token123`], { access_token: "token123", balance: 10 } as PolarUser);
+  const handler = handleRequest(config, kv, {});
+  const send = (path: string, accept: string) =>
+    handler(new Request(`https://example.com${path}`, { headers: { Accept: accept, Authorization: "Bearer token123" } }));
+
+  const events = await send("/events", "text/event-stream");
+  assertEquals([events.status, events.headers.get('Content-Type')], [200, 'text/event-stream']);
+  assertEquals(await events.text(), "data: a\n\n");
+
+  const image = await send("/image", "image/png");
+  assertEquals([image.status, image.headers.get('Content-Type')], [200, 'image/png']);
+  assertEquals(new Uint8Array(await image.arrayBuffer()), png);
+
+  const refused = await send("/data", "image/png");
+  await refused.body?.cancel();
+  assertEquals([refused.status, refused.headers.get('X-Credits-Remaining')], [406, '6']);
+  kv.close();
+});
+
+// === REFUND TESTS ===
+
+Deno.test("refundCharge - refunds a request at most once", async () => {
+  const kv = await Deno.openKv(":memory:");
+  await kv.set([`user:token123`], { access_token: "token123", balance: 10 } as PolarUser);
+
+  const results = await Promise.all(
+    Array.from({ length: 5 }, () => refundCharge(kv, defaultConfig)("token123", 3, { reason: "handler_error", requestId: "req-1" }))
+  );
+  const record = await kv.get<{ amount: number; reason: string }>([`refund:req-1`]);
+
+  assertEquals(results.filter(r => r.kind === 'ok').length, 1);
+  assert(results.every(r => r.kind === 'ok' || r.error.kind === 'already_applied'));
+  assertEquals((await kv.get<PolarUser>([`user:token123`])).value?.balance, 13);
+  assertEquals(record.value?.amount, 3);
+  assertEquals(record.value?.reason, "handler_error");
+  kv.close();
+});
+
+Deno.test("handleRequest - failed handlers are refunded; throws become 500, error statuses are kept", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const config: Config = {
+    ...defaultConfig,
+    priceCredit: 2,
+    fetch: (request) => {
+      const path = new URL(request.url).pathname;
+      return path === "/throws"
+        ? Promise.reject(new Error("boom"))
+        : Promise.resolve(new Response("upstream down", { status: 503 }));
+    },
+  };
+  await kv.set([`user:token123`], { access_token: "token123", balance: 10 } as PolarUser);
+  const handler = handleRequest(config, kv, {});
+  const headers = { Authorization: "Bearer token123" };
+
+  const thrown = await handler(new Request("https://example.com/throws", { headers }));
+  assertEquals(thrown.status, 500);
+  assertEquals((await thrown.json()).error, "Internal Server Error");
+
+  const upstream = await handler(new Request("https://example.com/unavailable", { headers }));
+  assertEquals(upstream.status, 503);
+  assertEquals(await upstream.text(), "upstream down");
+
+  assertEquals(upstream.headers.get('X-Credits-Remaining'), '10');
+  assertEquals((await kv.get<PolarUser>([`user:token123`])).value?.balance, 10);
+  kv.close();
+});
+
+Deno.test("handleRequest - keeps handler statuses and headers and bills only billable statuses", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const config: Config = {
+    ...defaultConfig,
+    freeRatelimit: 0,
+    cacheSeconds: 0,
+    pricing: { "/search": { price: 2, billableStatuses: ['2xx', 404] }, "/*": { price: 2 } },
+    responseHeaders: { deny: ['X-Internal'] },
+    fetch: (request) => {
+      const path = new URL(request.url).pathname;
+      const headers = new Headers({ 'X-Request-Id': 'abc', 'X-Internal': 'secret', 'Access-Control-Allow-Origin': 'https://evil.example' });
+      headers.append('Set-Cookie', 'a=1');
+      headers.append('Set-Cookie', 'b=2');
+      return Promise.resolve(match(path)
+        .with("/premium", () => Response.json({ error: "Unauthorized" }, { status: 401, headers }))
+        .with("/moved", () => new Response(null, { status: 302, headers: { Location: "/new" } }))
+        .with("/created", () => Response.json({ id: 1 }, { status: 201, headers }))
+        .otherwise(() => Response.json({ error: "Not found" }, { status: 404 })));
+    },
+  };
+  await kv.set([`user:token123`], { access_token: "token123", balance: 20 } as PolarUser);
+  const handler = handleRequest(config, kv, {});
+  const send = async (path: string) => {
+    const response = await handler(new Request(`https://example.com${path}`, { headers: { Authorization: "Bearer token123" } }));
+    await response.body?.cancel();
+    return response;
+  };
+
+  const premium = await send("/premium");
+  assertEquals([premium.status, premium.headers.get('X-Request-Id'), premium.headers.get('X-Internal')], [401, 'abc', null]);
+  assertEquals(premium.headers.getSetCookie(), ['a=1', 'b=2']);
+  assertEquals(premium.headers.get('Access-Control-Allow-Origin'), '*');
+  assertEquals(premium.headers.get('X-Credits-Remaining'), '20');
+
+  const moved = await send("/moved");
+  assertEquals([moved.status, moved.headers.get('Location')], [302, '/new']);
+
+  const created = await send("/created");
+  assertEquals([created.status, created.headers.get('X-Credits-Remaining')], [201, '18']);
+
+  assertEquals((await send("/notfound")).headers.get('X-Credits-Remaining'), '18');
+  assertEquals((await send("/search")).headers.get('X-Credits-Remaining'), '16');
+  kv.close();
+});
+
+// === LEDGER TESTS ===
+
+Deno.test("ledger - every balance change is recorded and balance derives from it", async () => {
+  const kv = await Deno.openKv(":memory:");
+  await kv.set([`user:token123`], { access_token: "token123", balance: 50 } as PolarUser);
+
+  await chargeUser(kv, defaultConfig)("token123", 5, { reason: "request", path: "/a", requestId: "req-1" });
+  await creditUser(kv, defaultConfig)("token123", 100, { reason: "purchase" });
+  await creditUser(kv, defaultConfig)("token123", 10, { reason: "welcome" }, "grant");
+  await refundCharge(kv, defaultConfig)("token123", 5, { reason: "handler_error", requestId: "req-1" });
+
+  const entries = await Array.fromAsync(kv.list<{ kind: string; amount: number }>({ prefix: [`ledger:token123`] }));
+  assertEquals(entries.map(e => [e.value.kind, e.value.amount]), [
+    ["debit", -5], ["credit", 100], ["grant", 10], ["refund", 5],
+  ]);
+
+  const derived = await deriveLedgerBalance(kv)("token123");
+  assert(derived.kind === 'ok');
+  assertEquals(derived.value, 160);
+  assertEquals((await kv.get<PolarUser>([`user:token123`])).value?.balance, 160);
+  kv.close();
+});
+
+Deno.test("deriveLedgerBalance - snapshots long histories", async () => {
+  const kv = await Deno.openKv(":memory:");
+  await kv.set([`user:token123`], { access_token: "token123", balance: 0 } as PolarUser);
+
+  for (let i = 0; i < 120; i++) {
+    await creditUser(kv, defaultConfig)("token123", 1);
+  }
+
+  const first = await deriveLedgerBalance(kv)("token123");
+  const snapshot = await kv.get<{ balance: number }>([`ledger_snapshot:token123`]);
+  await creditUser(kv, defaultConfig)("token123", 5);
+  const second = await deriveLedgerBalance(kv)("token123");
+
+  assert(first.kind === 'ok' && second.kind === 'ok');
+  assertEquals(first.value, 120);
+  assertEquals(snapshot.value?.balance, 120);
+  assertEquals(second.value, 125);
+  kv.close();
+});
+
+Deno.test("handleRequest - paginated transaction history for the authenticated user", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const config: Config = { ...defaultConfig, cacheSeconds: 0 };
+  await kv.set([`user:token123`], { access_token: "token123", balance: 10 } as PolarUser);
+  const handler = handleRequest(config, kv, {});
+  const headers = { Authorization: "Bearer token123" };
+
+  for (const path of ["/one", "/two", "/three"]) {
+    await (await handler(new Request(`https://example.com${path}`, { headers }))).text();
+  }
+
+  const first = await handler(new Request("https://example.com/__billing/transactions?limit=2", { headers }));
+  const firstPage = await first.json();
+  assertEquals(firstPage.balance, 7);
+  assertEquals(firstPage.transactions.map((t: { path: string }) => t.path), ["/three", "/two"]);
+
+  const second = await handler(
+    new Request(`https://example.com/__billing/transactions?limit=2&cursor=${firstPage.next_cursor}`, { headers })
+  );
+  const secondPage = await second.json();
+  assertEquals(secondPage.transactions.map((t: { path: string }) => t.path), ["/one"]);
+  assertEquals(secondPage.next_cursor, null);
+
+  const anonymous = await handler(new Request("https://example.com/__billing/transactions"));
+  assertEquals(anonymous.status, 401);
+  await anonymous.text();
+  kv.close();
+});
+
+// === WEBHOOK TESTS ===
+
+const WEBHOOK_SECRET = "polar_whs_test";
+
+// Sign a payload the way Polar does (Standard Webhooks, raw secret bytes)
+const signedWebhook = async (payload: unknown, id: string, timestamp = Math.floor(Date.now() / 1000)) => {
+  const body = JSON.stringify(payload);
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(WEBHOOK_SECRET),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(`${id}.${timestamp}.${body}`));
+  return new Request("https://example.com/__billing/webhooks/polar", {
+    method: "POST",
+    body,
+    headers: {
+      "webhook-id": id,
+      "webhook-timestamp": String(timestamp),
+      "webhook-signature": `v1,${btoa(String.fromCharCode(...new Uint8Array(signature)))}`,
+    },
+  });
+};
+
+const orderPaid = {
+  type: "order.paid",
+  data: { id: "order_1", amount: 1000, customer: { external_id: "cust_1" }, metadata: { credits: 50 } },
+};
+
+Deno.test("polar webhook - verified order credits the customer once", async () => {
+  const kv = await Deno.openKv(":memory:");
+  await saveUser(kv)("token123", { access_token: "token123", external_customer_id: "cust_1", balance: 10 });
+  const handler = handleRequest(defaultConfig, kv, { POLAR_WEBHOOK_SECRET: WEBHOOK_SECRET });
+
+  const first = await handler(await signedWebhook(orderPaid, "msg_1"));
+  const replay = await handler(await signedWebhook(orderPaid, "msg_1"));
+  const stored = await kv.get<PolarUser>([`user:token123`]);
+
+  assertEquals(first.status, 200);
+  assertEquals(await first.json(), { received: true, duplicate: false });
+  assertEquals(await replay.json(), { received: true, duplicate: true });
+  assertEquals(stored.value?.balance, 60);
+  assertEquals(await deriveLedgerBalance(kv)("token123"), { kind: 'ok', value: 60 });
+  kv.close();
+});
+
+Deno.test("polar webhook - rejects bad signatures and stale timestamps", async () => {
+  const kv = await Deno.openKv(":memory:");
+  await saveUser(kv)("token123", { access_token: "token123", external_customer_id: "cust_1", balance: 10 });
+  const handler = handleRequest(defaultConfig, kv, { POLAR_WEBHOOK_SECRET: "another_secret" });
+
+  const forged = await handler(await signedWebhook(orderPaid, "msg_1"));
+  assertEquals(forged.status, 401);
+  await forged.text();
+
+  const verified = handleRequest(defaultConfig, kv, { POLAR_WEBHOOK_SECRET: WEBHOOK_SECRET });
+  const stale = await verified(await signedWebhook(orderPaid, "msg_2", Math.floor(Date.now() / 1000) - 3600));
+  assertEquals(stale.status, 401);
+  await stale.text();
+
+  const stored = await kv.get<PolarUser>([`user:token123`]);
+  assertEquals(stored.value?.balance, 10);
+  kv.close();
+});
+
+Deno.test("polar webhook - partial refunds of one order claw back only the newly refunded share", async () => {
+  const kv = await Deno.openKv(":memory:");
+  await saveUser(kv)("token123", { access_token: "token123", external_customer_id: "cust_1", balance: 100 });
+  const handler = handleRequest(defaultConfig, kv, { POLAR_WEBHOOK_SECRET: WEBHOOK_SECRET });
+  const refund = (refunded_amount: number) => ({ type: "order.refunded", data: { ...orderPaid.data, refunded_amount } });
+
+  for (const [amount, id] of [[300, "msg_1"], [600, "msg_2"], [400, "msg_3"]] as const) {
+    const response = await handler(await signedWebhook(refund(amount), id));
+    assertEquals(response.status, 200);
+    await response.body?.cancel();
+  }
+
+  assertEquals((await kv.get<PolarUser>([`user:token123`])).value?.balance, 70);
+  assertEquals(await deriveLedgerBalance(kv)("token123"), { kind: 'ok', value: 70 });
+  kv.close();
+});
+
+Deno.test("saveUser - keeps the external customer index in step with the user record", async () => {
+  const kv = await Deno.openKv(":memory:");
+  await saveUser(kv)("token123", { access_token: "token123", external_customer_id: "cust_1", balance: 10 });
+  await saveUser(kv)("token123", { access_token: "token123", external_customer_id: "cust_2", balance: 10 });
+
+  assertEquals((await kv.get([`external_customer:cust_1`])).value, null);
+  assertEquals((await kv.get([`external_customer:cust_2`])).value, "token123");
+
+  const unknown = await handleRequest(defaultConfig, kv, { POLAR_WEBHOOK_SECRET: WEBHOOK_SECRET })(await signedWebhook(orderPaid, "msg_1"));
+  assertEquals(unknown.status, 404);
+  await unknown.body?.cancel();
+  kv.close();
+});
+
+Deno.test("mapPolarEvent - partial refunds claw back proportional credits", () => {
+  const refund = {
+    type: "order.refunded",
+    data: { ...orderPaid.data, refunded_amount: 500 },
+  };
+
+  assertEquals(mapPolarEvent(defaultConfig)(refund), {
+    kind: 'adjust',
+    ledgerKind: 'debit',
+    amount: -25,
+    externalCustomerId: "cust_1",
+    reason: 'order_refunded',
+    orderId: "order_1",
+  });
+  assertEquals(mapPolarEvent(defaultConfig)({ type: "checkout.created", data: orderPaid.data }), { kind: 'ignore' });
+});
+
+// === CHECKOUT TESTS ===
+
+// Local stand-in for the Polar SDK that records every checkout request
+const stubCheckoutClient = () => {
+  const requests: unknown[] = [];
+  const client: CheckoutClient = {
+    checkouts: {
+      create: (request) => {
+        requests.push(request);
+        return Promise.resolve({ id: `co_${requests.length}`, url: `https://polar.test/checkout/co_${requests.length}` });
+      },
+    },
+  };
+  return { client, requests };
+};
+
+Deno.test("createCheckoutSession - creates a per-customer session for a credit pack", async () => {
+  const { client, requests } = stubCheckoutClient();
+  const config: Config = {
+    ...defaultConfig,
+    checkout: { creditPacks: [{ credits: 100, productId: "prod_100" }, { credits: 500, productId: "prod_500" }], client },
+  };
+
+  const session = await createCheckoutSession(config, {})({ externalCustomerId: "cust_1", credits: 500 });
+  const unknown = await createCheckoutSession(config, {})({ externalCustomerId: "cust_1", credits: 7 });
+  const unconfigured = await createCheckoutSession(defaultConfig, {})({ externalCustomerId: "cust_1" });
+
+  assertEquals(session, { kind: 'ok', value: { id: "co_1", url: "https://polar.test/checkout/co_1", credits: 500 } });
+  assertEquals(requests, [{ products: ["prod_500"], externalCustomerId: "cust_1", metadata: { credits: 500 } }]);
+  assertEquals(unknown, { kind: 'err', error: { kind: 'unknown_pack', credits: 7, available: [100, 500] } });
+  assertEquals(unconfigured, { kind: 'err', error: { kind: 'not_configured' } });
+});
+
+Deno.test("handleRequest - 402 carries a personalized, reused checkout link", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const { client, requests } = stubCheckoutClient();
+  const config: Config = {
+    ...defaultConfig,
+    freeRatelimit: 0,
+    cacheSeconds: 0,
+    checkout: { creditPacks: [{ credits: 100, productId: "prod_100" }], client },
+  };
+  await kv.set([`user:token123`], { access_token: "token123", balance: 0 } as PolarUser);
+  const handler = handleRequest(config, kv, { POLAR_PAYMENT_LINK: "https://polar.test/static" });
+  const headers = { Authorization: "Bearer token123" };
+
+  const first = await (await handler(new Request("https://example.com/api", { headers }))).json();
+  const second = await (await handler(new Request("https://example.com/api", { headers }))).json();
+  const anonymous = await (await handler(new Request("https://example.com/api"))).json();
+  const stored = await kv.get<PolarUser>([`user:token123`]);
+
+  assertEquals(first.checkout_url, "https://polar.test/checkout/co_1");
+  assertEquals(second.checkout_url, first.checkout_url);
+  assertEquals(anonymous.checkout_url, undefined);
+  assertEquals(anonymous.payment_link, "https://polar.test/static");
+  assertEquals(requests.length, 1);
+  assert(stored.value?.external_customer_id?.startsWith("cust_"));
+  assertEquals((requests[0] as { externalCustomerId: string }).externalCustomerId, stored.value?.external_customer_id);
+  kv.close();
+});
+
+Deno.test("handleRequest - checkout bodies that aren't JSON objects fall back to the default pack", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const { client, requests } = stubCheckoutClient();
+  const config: Config = { ...defaultConfig, checkout: { creditPacks: [{ credits: 100, productId: "prod_100" }], client } };
+  await kv.set([`user:token123`], { access_token: "token123", balance: 0 } as PolarUser);
+  const handler = handleRequest(config, kv, {});
+
+  for (const body of ["null", "[]", "5", "{"]) {
+    const response = await handler(new Request("https://example.com/__billing/checkout", {
+      method: "POST",
+      headers: { Authorization: "Bearer token123" },
+      body,
+    }));
+    assertEquals([response.status, (await response.json()).credits], [201, 100]);
+  }
+  assertEquals(requests.length, 4);
+  kv.close();
+});
+
+// === AGENT PAYMENT TESTS ===
+
+// Encode an X-Payment proof the way an agent would
+const paymentProof = (proof: unknown) => btoa(JSON.stringify(proof));
+
+// Verifier accepting `{ paid: n }` payloads from a fictional "voucher" scheme
+const voucherConfig = (): Config => ({
+  ...defaultConfig,
+  freeRatelimit: 0,
+  cacheSeconds: 0,
+  payments: {
+    currency: "USD",
+    creditPrice: 0.01,
+    verifiers: {
+      voucher: (proof) => {
+        const { paid } = proof.payload as { paid?: number };
+        return Promise.resolve(
+          paid === undefined ? { kind: 'err', error: 'missing voucher' } : { kind: 'ok', value: { payer: "agent_1", amount: paid } }
+        );
+      },
+    },
+  },
+});
+
+Deno.test("handleRequest - 402 carries machine-readable payment requirements", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const handler = handleRequest(voucherConfig(), kv, { POLAR_PAYMENT_LINK: "https://polar.test/static" });
+
+  const response = await handler(new Request("https://example.com/api/data?q=1"));
+  const body = await response.json();
+  const requirements = body.payment_requirements;
+
+  assertEquals(response.status, 402);
+  assertEquals(requirements.resource, "GET https://example.com/api/data?q=1");
+  assertEquals(requirements.price, 1);
+  assertEquals(requirements.unit, "credits");
+  assertEquals(requirements.currency, "USD");
+  assertEquals(requirements.schemes, ["credits", "checkout", "voucher"]);
+  assertEquals(requirements.checkout, "https://polar.test/static");
+  assertEquals(JSON.parse(atob(response.headers.get("X-Payment-Required")!)), requirements);
+  assert(response.headers.get("WWW-Authenticate")?.includes(`nonce="${requirements.nonce}"`));
+  kv.close();
+});
+
+Deno.test("handleRequest - verified X-Payment proof pays for the retry exactly once", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const handler = handleRequest(voucherConfig(), kv, {});
+  const url = "https://example.com/api/data";
+
+  const { payment_requirements: { nonce } } = await (await handler(new Request(url))).json();
+  const headers = { "X-Payment": paymentProof({ scheme: "voucher", nonce, payload: { paid: 1 } }) };
+
+  const paid = await handler(new Request(url, { headers }));
+  assertEquals(paid.status, 200);
+  assertEquals(JSON.parse(atob(paid.headers.get("X-Payment-Response")!)).payer, "agent_1");
+  await paid.text();
+
+  const replayed = await handler(new Request(url, { headers }));
+  assertEquals(replayed.status, 402);
+  assertEquals((await replayed.json()).message, "Payment proof not accepted: unknown_nonce.");
+  kv.close();
+});
+
+Deno.test("handleRequest - a proof that paid for a failed request pays for the retry", async () => {
+  const kv = await Deno.openKv(":memory:");
+  let calls = 0;
+  const handler = handleRequest({
+    ...voucherConfig(),
+    fetch: () => Promise.resolve(++calls === 1 ? new Response("busy", { status: 503 }) : Response.json({ ok: true })),
+  }, kv, {});
+  const url = "https://example.com/api/data";
+
+  const { payment_requirements: { nonce } } = await (await handler(new Request(url))).json();
+  const headers = { "X-Payment": paymentProof({ scheme: "voucher", nonce, payload: { paid: 1 } }) };
+
+  const failed = await handler(new Request(url, { headers }));
+  assertEquals([failed.status, await failed.text()], [503, "busy"]);
+  assertEquals((await kv.get<{ releaseReason?: string }>([`payment_receipt:${nonce}`])).value?.releaseReason, "handler_status_503");
+
+  const retried = await handler(new Request(url, { headers }));
+  assertEquals(retried.status, 200);
+  await retried.text();
+
+  const replayed = await handler(new Request(url, { headers }));
+  assertEquals(replayed.status, 402);
+  await replayed.text();
+  assertEquals((await kv.get<{ releaseReason?: string }>([`payment_receipt:${nonce}`])).value?.releaseReason, undefined);
+  kv.close();
+});
+
+Deno.test("verifyPaymentProof - rejects wrong resources, short payments and unknown schemes", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const handler = handleRequest(voucherConfig(), kv, {});
+  const { payment_requirements: { nonce, resource } } = await (await handler(new Request("https://example.com/a"))).json();
+  const verify = verifyPaymentProof(kv, voucherConfig());
+
+  const elsewhere = await verify(paymentProof({ scheme: "voucher", nonce, payload: { paid: 1 } }), "GET https://example.com/b");
+  const short = await verify(paymentProof({ scheme: "voucher", nonce, payload: { paid: 0.5 } }), resource);
+  const rejected = await verify(paymentProof({ scheme: "voucher", nonce, payload: {} }), resource);
+  const unknown = await verify(paymentProof({ scheme: "card", nonce }), resource);
+  const malformed = await verify("not base64 json", resource);
+
+  assertEquals(elsewhere, { kind: 'err', error: { kind: 'resource_mismatch' } });
+  assertEquals(short, { kind: 'err', error: { kind: 'insufficient_amount', amount: 0.5, required: 1 } });
+  assertEquals(rejected, { kind: 'err', error: { kind: 'rejected', reason: 'missing voucher' } });
+  assertEquals(unknown, { kind: 'err', error: { kind: 'unsupported_scheme', scheme: 'card' } });
+  assertEquals(malformed, { kind: 'err', error: { kind: 'malformed_proof' } });
+  kv.close();
+});
+
+// === API KEY TESTS ===
+
+Deno.test("createApiKey - keys resolve by hash and bill their account", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const config: Config = { ...defaultConfig, cacheSeconds: 0 };
+  await kv.set([`user:acct_1`], { access_token: "unused", balance: 10 } as PolarUser);
+
+  const created = await createApiKey(kv, config)("acct_1", { name: "ci" });
+  assert(created.kind === 'ok');
+  const { key, apiKey } = created.value;
+  assert(key.startsWith("ua402_live_"));
+  assert(apiKey.hint.endsWith("…") && !apiKey.hint.includes(key));
+
+  const response = await handleRequest(config, kv, {})(
+    new Request("https://example.com/api", { headers: { Authorization: `Bearer ${key}` } })
+  );
+  await response.text();
+
+  const stored = await kv.get<PolarUser>([`user:acct_1`]);
+  const keyRecord = await kv.get<ApiKey>([`api_key:${apiKey.id}`]);
+  const plaintextKeys = await Array.fromAsync(kv.list({ prefix: [] }));
+
+  assertEquals(response.status, 200);
+  assertEquals(stored.value?.balance, 9);
+  assertEquals(keyRecord.value?.spent, 1);
+  assert(keyRecord.value?.lastUsedAt);
+  assert(plaintextKeys.every((entry) => !JSON.stringify(entry).includes(key)));
+  kv.close();
+});
+
+Deno.test("handleRequest - API key spend caps and scopes", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const config: Config = { ...defaultConfig, cacheSeconds: 0, pricing: { "/admin/*": { scope: "admin" } } };
+  await kv.set([`user:acct_1`], { access_token: "unused", balance: 10 } as PolarUser);
+  const capped = await createApiKey(kv, config)("acct_1", { spendCap: 2, scopes: ["billing:read"] });
+  assert(capped.kind === 'ok');
+  const handler = handleRequest(config, kv, {});
+  const headers = { Authorization: `Bearer ${capped.value.key}` };
+
+  const statuses = [];
+  for (const path of ["/one", "/two", "/three"]) {
+    const response = await handler(new Request(`https://example.com${path}`, { headers }));
+    statuses.push(response.status);
+    await response.text();
+  }
+
+  const admin = await handler(new Request("https://example.com/admin/users", { headers }));
+  const keys = await handler(new Request("https://example.com/__billing/keys", { headers }));
+  const transactions = await handler(new Request("https://example.com/__billing/transactions", { headers }));
+
+  assertEquals(statuses, [200, 200, 402]);
+  assertEquals(admin.status, 403);
+  assertEquals(admin.headers.get("WWW-Authenticate"), 'Bearer error="insufficient_scope", scope="admin"');
+  assertEquals(keys.status, 403);
+  assertEquals(transactions.status, 200);
+  assertEquals((await transactions.json()).transactions[0].apiKeyId, capped.value.apiKey.id);
+  await admin.text();
+  await keys.text();
+  kv.close();
+});
+
+Deno.test("handleRequest - API keys are created, rotated and revoked over HTTP", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const config: Config = { ...defaultConfig, cacheSeconds: 0, freeRatelimit: 0 };
+  await kv.set([`user:token123`], { access_token: "token123", balance: 10 } as PolarUser);
+  const handler = handleRequest(config, kv, {});
+  const asToken = { Authorization: "Bearer token123" };
+
+  const created = await handler(new Request("https://example.com/__billing/keys", {
+    method: "POST",
+    headers: asToken,
+    body: JSON.stringify({ name: "agent", scopes: ["*"] }),
+  }));
+  const first = await created.json();
+  assertEquals(created.status, 201);
+  assertEquals(first.hash, undefined);
+
+  const rotated = await handler(new Request(`https://example.com/__billing/keys/${first.id}/rotate`, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${first.key}` },
+  }));
+  const second = await rotated.json();
+  assertEquals(rotated.status, 201);
+
+  const oldKey = await handler(new Request("https://example.com/api", { headers: { Authorization: `Bearer ${first.key}` } }));
+  const newKey = await handler(new Request("https://example.com/api", { headers: { Authorization: `Bearer ${second.key}` } }));
+  assertEquals(oldKey.status, 401);
+  assertEquals(newKey.status, 200);
+  await oldKey.text();
+  await newKey.text();
+
+  const revoked = await handler(new Request(`https://example.com/__billing/keys/${second.id}`, {
+    method: "DELETE",
+    headers: asToken,
+  }));
+  assertEquals(revoked.status, 200);
+  await revoked.text();
+
+  const listed = await (await handler(new Request("https://example.com/__billing/keys", { headers: asToken }))).json();
+  assertEquals(listed.keys.map((k: { id: string; rotatedTo?: string }) => [k.id, k.rotatedTo]), [
+    [second.id, undefined],
+    [first.id, second.id],
+  ]);
+  assert(listed.keys.every((k: { revokedAt?: string }) => k.revokedAt));
+  kv.close();
+});
+
+Deno.test("handleRequest - API keys can't mint or rotate keys wider than themselves", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const config: Config = { ...defaultConfig, cacheSeconds: 0, freeRatelimit: 0 };
+  await kv.set([`user:token123`], { access_token: "token123", balance: 10 } as PolarUser);
+  const limited = await createApiKey(kv, config)("token123", { scopes: ["keys:manage", "api"], spendCap: 5, limits: { daily: 3 } });
+  const unlimited = await createApiKey(kv, config)("token123");
+  assert(limited.kind === 'ok' && unlimited.kind === 'ok');
+  const handler = handleRequest(config, kv, {});
+  const asLimited = { Authorization: `Bearer ${limited.value.key}` };
+  const post = (path: string, body?: unknown) =>
+    handler(new Request(`https://example.com/__billing/keys${path}`, { method: "POST", headers: asLimited, body: JSON.stringify(body ?? {}) }));
+
+  const widened = await post("", { scopes: ["*"] });
+  assertEquals([widened.status, (await widened.json()).message], [403, 'This API key lacks the "*" scope.']);
+
+  const child = await post("", { spendCap: 100, limits: { daily: 10, monthly: 50 } });
+  const { scopes, spendCap, limits } = await child.json();
+  assertEquals(child.status, 201);
+  assertEquals({ scopes, spendCap, limits }, { scopes: ["keys:manage", "api"], spendCap: 5, limits: { daily: 3, monthly: 50 } });
+
+  const rotatedWider = await post(`/${unlimited.value.apiKey.id}/rotate`);
+  assertEquals(rotatedWider.status, 403);
+  await rotatedWider.text();
+
+  const nullBody = await handler(new Request("https://example.com/__billing/keys", { method: "POST", headers: asLimited, body: "null" }));
+  assertEquals([nullBody.status, (await nullBody.json()).spendCap], [201, 5]);
+
+  const rotatedSelf = await post(`/${limited.value.apiKey.id}/rotate`);
+  assertEquals([rotatedSelf.status, (await rotatedSelf.json()).spendCap], [201, 5]);
+  kv.close();
+});
+
+Deno.test("handleRequest - rotation grace periods never extend a key's life", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const config: Config = { ...defaultConfig, cacheSeconds: 0 };
+  await kv.set([`user:token123`], { access_token: "token123", balance: 10 } as PolarUser);
+  const expiring = await createApiKey(kv, config)("token123", { scopes: ["keys:manage"], expiresInSeconds: 60 });
+  const lasting = await createApiKey(kv, config)("token123");
+  assert(expiring.kind === 'ok' && lasting.kind === 'ok');
+  const handler = handleRequest(config, kv, {});
+  const rotate = async (id: string, token: string, graceSeconds: number) => {
+    const response = await handler(new Request(`https://example.com/__billing/keys/${id}/rotate`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${token}` },
+      body: JSON.stringify({ graceSeconds }),
+    }));
+    await response.body?.cancel();
+    return [response.status, (await kv.get<ApiKey>([`api_key:${id}`])).value?.expiresAt] as const;
+  };
+
+  const [tooLong] = await rotate(expiring.value.apiKey.id, expiring.value.key, 315360000);
+  assertEquals(tooLong, 400);
+
+  const [status, graceEnd] = await rotate(expiring.value.apiKey.id, "token123", 315360000);
+  assertEquals([status, graceEnd], [201, expiring.value.apiKey.expiresAt]);
+
+  const [, capped] = await rotate(lasting.value.apiKey.id, "token123", 315360000);
+  assert(Date.parse(capped ?? "") <= Date.now() + 24 * 60 * 60 * 1000);
+  kv.close();
+});
+
+// === SPEND LIMIT TESTS ===
+
+Deno.test("handleRequest - daily spend limits return 402 until the period ends", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const config: Config = { ...defaultConfig, cacheSeconds: 0, spendLimits: { daily: 2 } };
+  await kv.set([`user:token123`], { access_token: "token123", balance: 10 } as PolarUser);
+  const handler = handleRequest(config, kv, {});
+  const headers = { Authorization: "Bearer token123" };
+
+  const responses = [];
+  for (const path of ["/one", "/two", "/three"]) {
+    responses.push(await handler(new Request(`https://example.com${path}`, { headers })));
+  }
+  const [, , limited] = responses;
+  const body = await limited.json();
+  await Promise.all(responses.slice(0, 2).map((response) => response.text()));
+
+  assertEquals(responses.map((response) => response.status), [200, 200, 402]);
+  assertEquals(body.error, "Spend Limit Exceeded");
+  assert(Number(limited.headers.get("Retry-After")) <= 86_400);
+  assertEquals((await kv.get<PolarUser>([`user:token123`])).value?.balance, 8);
+  kv.close();
+});
+
+Deno.test("handleRequest - per-key paid request ceilings return 429", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const config: Config = { ...defaultConfig, cacheSeconds: 0 };
+  await kv.set([`user:acct_1`], { access_token: "unused", balance: 10 } as PolarUser);
+  const created = await createApiKey(kv, config)("acct_1", { limits: { requestsPerMinute: 1 } });
+  assert(created.kind === 'ok');
+  const handler = handleRequest(config, kv, {});
+  const headers = { Authorization: `Bearer ${created.value.key}` };
+
+  const first = await handler(new Request("https://example.com/one", { headers }));
+  const second = await handler(new Request("https://example.com/two", { headers }));
+  await first.text();
+  await second.text();
+
+  assertEquals([first.status, second.status], [200, 429]);
+  assert(second.headers.get("Retry-After"));
+  assertEquals((await kv.get<PolarUser>([`user:acct_1`])).value?.balance, 9);
+  kv.close();
+});
+
+Deno.test("chargeUser - low balance alerts fire once per threshold crossing", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const alerts: BudgetAlert[] = [];
+  const config: Config = {
+    ...defaultConfig,
+    budgetAlerts: { lowBalanceThresholds: [5, 1], onAlert: (alert) => { alerts.push(alert); } },
+  };
+  await kv.set([`user:token123`], { access_token: "token123", balance: 6 } as PolarUser);
+
+  for (const amount of [1, 1, 1, 3]) {
+    await chargeUser(kv, config)("token123", amount);
+  }
+
+  assertEquals(alerts.map(({ threshold, previousBalance, balance }) => [threshold, previousBalance, balance]), [
+    [5, 5, 4],
+    [1, 3, 0],
+  ]);
+  kv.close();
+});
+
+Deno.test("chargeUser - a hanging alert callback doesn't hold up the charge", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const config: Config = {
+    ...defaultConfig,
+    budgetAlerts: { lowBalanceThresholds: [5], onAlert: () => new Promise<void>(() => {}) },
+  };
+  await kv.set([`user:token123`], { access_token: "token123", balance: 6 } as PolarUser);
+
+  const charged = await chargeUser(kv, config)("token123", 2);
+  assert(charged.kind === 'ok');
+  assertEquals(charged.value?.balance, 4);
+  kv.close();
+});
+
+// === USER STATE TESTS ===
+
+Deno.test("determineUserState - unknown tokens get 401, failing lookups 503, unless lenient", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const failingLookup: Config = { ...defaultConfig, getUserByToken: () => Promise.reject(new Error("KV down")) };
+  const unknown = await handleRequest(defaultConfig, kv, {})(
+    new Request("https://example.com/api", { headers: { Authorization: "Bearer typo" } })
+  );
+  const failing = await handleRequest(failingLookup, kv, {})(
+    new Request("https://example.com/api", { headers: { Authorization: "Bearer token123" } })
+  );
+  const lenient = await handleRequest({ ...defaultConfig, authFailureMode: 'lenient' }, kv, {})(
+    new Request("https://example.com/api", { headers: { Authorization: "Bearer typo" } })
+  );
+
+  assertEquals(unknown.status, 401);
+  assertEquals(unknown.headers.get("WWW-Authenticate"), 'Bearer error="invalid_token"');
+  assertEquals(failing.status, 503);
+  assertEquals(lenient.status, 200);
+  await Promise.all([unknown.text(), failing.text(), lenient.text()]);
+  kv.close();
+});
+
+Deno.test("handleRequest - a failing free-tier limiter answers 503 with Retry-After", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const failingLimiter = new Proxy(kv, {
+    get: (target, property) => {
+      if (property === 'get') {
+        return (key: Deno.KvKey) => String(key[0]).startsWith('ratelimit:') ? Promise.reject(new Error("KV down")) : target.get(key);
+      }
+      const value = Reflect.get(target, property);
+      return typeof value === 'function' ? value.bind(target) : value;
+    },
+  });
+  let calls = 0;
+  const config: Config = { ...defaultConfig, freeRatelimit: 5, fetch: () => Promise.resolve(Response.json({ calls: ++calls })) };
+
+  const response = await handleRequest(config, failingLimiter, {})(new Request("https://example.com/api"));
+  assertEquals([response.status, response.headers.get('Retry-After'), calls], [503, '1', 0]);
+  await response.body?.cancel();
+  kv.close();
+});
+
+// === CLIENT IDENTIFICATION TESTS ===
+
+const serveInfo = (hostname: string): Deno.ServeHandlerInfo => ({
+  remoteAddr: { transport: "tcp", hostname, port: 4711 },
+  completed: Promise.resolve(),
+} as Deno.ServeHandlerInfo);
+
+Deno.test("normalizeClientAddress - IPv4, mapped and IPv6 /64 grouping", () => {
+  assertEquals(normalizeClientAddress("203.0.113.7"), "203.0.113.7");
+  assertEquals(normalizeClientAddress("203.0.113.7:443"), "203.0.113.7");
+  assertEquals(normalizeClientAddress("::ffff:203.0.113.7"), "203.0.113.7");
+  assertEquals(normalizeClientAddress("2001:db8:1:2:aaaa::1"), "2001:db8:1:2::/64");
+  assertEquals(normalizeClientAddress("\"[2001:DB8:1:2::ff]:4711\""), "2001:db8:1:2::/64");
+});
+
+Deno.test("resolveClientId - uses socket address without trusted proxies", async () => {
+  const request = new Request("https://example.com/", { headers: { "X-Forwarded-For": "198.51.100.1" } });
+
+  assertEquals(await resolveClientId(defaultConfig)(request, serveInfo("203.0.113.7")), "ip:203.0.113.7");
+  assertEquals(await resolveClientId(defaultConfig)(request), "anonymous");
+});
+
+Deno.test("resolveClientId - honors trusted proxy hops", async () => {
+  const config: Config = { ...defaultConfig, trustedProxy: { headers: ["forwarded", "x-forwarded-for"], hops: 2 } };
+  const xff = new Request("https://example.com/", {
+    headers: { "X-Forwarded-For": "192.0.2.99, 198.51.100.1, 10.0.0.2" }
+  });
+  const forwarded = new Request("https://example.com/", {
+    headers: { "Forwarded": 'for="[2001:db8::1]:4711";proto=https, for=10.0.0.2' }
+  });
+
+  assertEquals(await resolveClientId(config)(xff, serveInfo("10.0.0.1")), "ip:198.51.100.1");
+  assertEquals(await resolveClientId(config)(forwarded, serveInfo("10.0.0.1")), "ip:2001:db8:0:0::/64");
+});
+
+Deno.test("resolveClientId - custom hook takes precedence", async () => {
+  const config: Config = { ...defaultConfig, getClientId: (request) => request.headers.get("X-Device-Id") ?? undefined };
+  const request = new Request("https://example.com/", { headers: { "X-Device-Id": "device-1" } });
+
+  assertEquals(await resolveClientId(config)(request, serveInfo("203.0.113.7")), "device-1");
+  assertEquals(await resolveClientId(config)(new Request("https://example.com/"), serveInfo("203.0.113.7")), "ip:203.0.113.7");
+});
+
 // === CACHING TESTS ===
 
 Deno.test("cache operations - set and get", async () => {
@@ -493,6 +2305,47 @@ Deno.test("chargeUser - insufficient balance", async () => {
   assertEquals(result.error.message, 'Insufficient balance');
 });
 
+Deno.test("chargeUser - parallel charges debit exactly N x price with the default retries", async () => {
+  const kv = await Deno.openKv(":memory:");
+  await kv.set([`user:token123`], { access_token: "token123", balance: 400 } as PolarUser);
+
+  const results = await Promise.all(
+    Array.from({ length: 100 }, () => chargeUser(kv, defaultConfig)("token123", 3))
+  );
+  const stored = await kv.get<PolarUser>([`user:token123`]);
+
+  assertEquals(results.filter(r => r.kind === 'ok').length, 100);
+  assertEquals(stored.value?.balance, 100);
+  kv.close();
+});
+
+Deno.test("chargeUser - parallel charges never overdraw", async () => {
+  const kv = await Deno.openKv(":memory:");
+  await kv.set([`user:token123`], { access_token: "token123", balance: 5 } as PolarUser);
+
+  const results = await Promise.all(
+    Array.from({ length: 10 }, () => chargeUser(kv, defaultConfig)("token123", 1))
+  );
+  const stored = await kv.get<PolarUser>([`user:token123`]);
+
+  assertEquals(results.filter(r => r.kind === 'ok').length, 5);
+  assert(results.every(r => r.kind === 'ok' || r.error.kind === 'insufficient_balance'));
+  assertEquals(stored.value?.balance, 0);
+  kv.close();
+});
+
+Deno.test("chargeUser - unresolved contention returns typed error", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const config = { ...defaultConfig, chargeMaxAttempts: 0 };
+  await kv.set([`user:token123`], { access_token: "token123", balance: 5 } as PolarUser);
+
+  const result = await chargeUser(kv, config)("token123", 1);
+
+  assert(result.kind === 'err');
+  assertEquals(result.error, { kind: 'contention', attempts: 0 });
+  kv.close();
+});
+
 // === RESPONSE CREATION TESTS ===
 
 Deno.test("createSuccessResponse - JSON format", () => {